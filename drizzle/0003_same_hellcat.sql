@@ -0,0 +1,3 @@
+ALTER TABLE "recommendations" ADD COLUMN "score_breakdown" jsonb;--> statement-breakpoint
+UPDATE "recommendations" SET "score_breakdown" = jsonb_build_array(jsonb_build_object('factor', 'quality', 'label', regexp_replace(regexp_replace(trim("enhanced_reason"), '\*\*(.*?)\*\*', '\1', 'g'), '\s*\n\s*', ' ', 'g'), 'points', 0)) WHERE nullif(trim("enhanced_reason"), '') IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" DROP COLUMN "enhanced_reason";
\ No newline at end of file
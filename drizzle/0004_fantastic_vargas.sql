@@ -0,0 +1 @@
+ALTER TABLE "recommendations" ADD COLUMN "resolution_confidence" real;
\ No newline at end of file
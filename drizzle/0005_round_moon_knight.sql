@@ -0,0 +1,2 @@
+ALTER TABLE "recommendations" ADD COLUMN "feedback" text;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "feedback_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "recommendation_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"kind" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "tier" text DEFAULT 'free' NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendation_usage" ADD CONSTRAINT "recommendation_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recommendation_usage_user_created_idx" ON "recommendation_usage" USING btree ("user_id","created_at");
\ No newline at end of file
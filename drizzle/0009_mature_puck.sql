@@ -0,0 +1,19 @@
+CREATE TABLE "recommendation_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"run_id" uuid,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"stage" text DEFAULT 'queued' NOT NULL,
+	"request" jsonb NOT NULL,
+	"results" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "recommendation_jobs" ADD CONSTRAINT "recommendation_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recommendation_jobs" ADD CONSTRAINT "recommendation_jobs_run_id_recommendation_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."recommendation_runs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recommendation_jobs_status_created_idx" ON "recommendation_jobs" USING btree ("status","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "recommendation_runs" ADD COLUMN "trigger" text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendation_runs" ADD COLUMN "seen_at" timestamp;
\ No newline at end of file
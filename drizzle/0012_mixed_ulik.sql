@@ -0,0 +1 @@
+ALTER TABLE "recommendations" ADD COLUMN "pick_type" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "movies" ADD COLUMN "details" jsonb;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "catalog_sync_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"changes_from" timestamp,
+	"changes_until" timestamp,
+	"changed" integer DEFAULT 0 NOT NULL,
+	"updated" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"removed" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "catalog_sync_runs_started_idx" ON "catalog_sync_runs" USING btree ("started_at");
\ No newline at end of file
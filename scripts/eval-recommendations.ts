@@ -0,0 +1,205 @@
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import type { UserMovieHistory } from "@/types/movie";
+import {
+  countDuplicates,
+  countExclusionViolations,
+  findHits,
+  genreDiversity,
+  summarize,
+  type EvalProfile,
+  type ProfileReport,
+} from "./eval/metrics";
+
+// Offline evaluation harness for the recommender
+// Replays fixture rating profiles (scripts/eval/profiles.json) through the
+// recommendation pipeline and reports:
+// - hit rate: held-out high ratings the recommender found again
+// - duplicate and exclusion violations (already-rated movies recommended)
+// - TMDB resolution failures among titles the model suggests itself
+// - diversity: how much the genres of each batch differ
+//
+// Usage: pnpm eval:recommendations [--prompt v2] [--count 5]
+//   [--profiles scripts/eval/profiles.json] [--json]
+// The model is the offline fixture stand-in unless RECOMMENDATION_PROVIDER is
+// set, e.g. openai-compatible for a local LLM. TMDB lookups need TMDB_API_KEY
+// (read from .env.local like the app does)
+
+const { values: args } = parseArgs({
+  options: {
+    profiles: { type: "string", default: "scripts/eval/profiles.json" },
+    prompt: { type: "string" },
+    count: { type: "string", default: "5" },
+    json: { type: "boolean", default: false },
+  },
+});
+
+process.env.RECOMMENDATION_PROVIDER ||= "fixture";
+if (args.prompt) process.env.RECOMMENDATION_PROMPT_VERSION = args.prompt;
+// Movie details come straight from TMDB, so nothing here queries the
+// database, but loading the pipeline needs a connection string
+process.env.RECOMMENDATION_MOVIE_CACHE = "off";
+process.env.DATABASE_URL ||= "postgres://eval@localhost/eval";
+
+const toHistory = (profile: EvalProfile): UserMovieHistory => ({
+  userId: `eval-${profile.name}`,
+  ratedMovies: profile.ratings.map((movie) => ({
+    ...movie,
+    ratedAt: new Date().toISOString(),
+  })),
+  wantToWatchList: [],
+  watchedMovies: [],
+  pastRecommendations: [],
+  recommendationFeedback: [],
+  favoriteGenres: [],
+});
+
+const percent = (part: number, whole: number) =>
+  whole === 0 ? "n/a" : `${Math.round((part / whole) * 100)}%`;
+
+const printReport = (reports: ProfileReport[], heading: string) => {
+  const summary = summarize(reports);
+  const columns = [20, 6, 6, 5, 6, 12, 10];
+  const row = (cells: Array<string | number>) =>
+    cells
+      .map((cell, index) => String(cell).padEnd(columns[index]))
+      .join("")
+      .trimEnd();
+
+  console.log(heading);
+  console.log(
+    row(["profile", "recs", "hits", "dup", "excl", "unresolved", "diversity"])
+  );
+  for (const report of reports) {
+    if (report.error) {
+      console.log(row([report.name, `failed: ${report.error}`]));
+      continue;
+    }
+    console.log(
+      row([
+        report.name,
+        report.recommended,
+        `${report.hits.length}/${report.heldOut}`,
+        report.duplicates,
+        report.exclusionViolations,
+        `${report.unresolved.length}/${report.suggested}`,
+        report.diversity.toFixed(2),
+      ])
+    );
+  }
+
+  console.log(
+    [
+      `\nHit rate ${summary.hits}/${summary.heldOut} (${percent(summary.hits, summary.heldOut)})`,
+      `duplicates ${summary.duplicates}`,
+      `exclusion violations ${summary.exclusionViolations}`,
+      `TMDB resolution failures ${summary.unresolved}/${summary.suggested} (${percent(summary.unresolved, summary.suggested)})`,
+      `diversity ${summary.diversity.toFixed(2)}`,
+      ...(summary.failedProfiles > 0
+        ? [`${summary.failedProfiles} profiles failed`]
+        : []),
+    ].join(" · ")
+  );
+};
+
+const main = async () => {
+  // Loaded after the environment above is set up
+  const {
+    buildRecommendationMessages,
+    generateAIRecommendations,
+    getPromptVersion,
+    getRecommendationModel,
+    loadTasteProfile,
+    resolveAIRecommendation,
+    runRecommendationPipeline,
+  } = await import("@/lib/recommendations");
+
+  const profiles: EvalProfile[] = JSON.parse(
+    await readFile(args.profiles, "utf8")
+  );
+  const count = parseInt(args.count, 10);
+  const { provider, modelId, model } = getRecommendationModel();
+
+  const evaluate = async (profile: EvalProfile): Promise<ProfileReport> => {
+    const history = toHistory(profile);
+    const report: ProfileReport = {
+      name: profile.name,
+      recommended: 0,
+      hits: [],
+      heldOut: profile.heldOut.length,
+      duplicates: 0,
+      exclusionViolations: 0,
+      suggested: 0,
+      unresolved: [],
+      diversity: 0,
+    };
+
+    try {
+      const recommendations = await runRecommendationPipeline({
+        history,
+        count,
+      });
+      report.recommended = recommendations.length;
+      report.hits = findHits(recommendations, profile.heldOut);
+      report.duplicates = countDuplicates(recommendations);
+      report.exclusionViolations = countExclusionViolations(
+        recommendations,
+        profile.ratings
+      );
+      report.diversity = genreDiversity(recommendations);
+
+      // The pipeline only asks the model for titles when TMDB runs short, so
+      // resolution is measured on a batch of the model's own suggestions
+      const suggestions = await generateAIRecommendations({
+        model,
+        count,
+        messages: buildRecommendationMessages({ history, count }),
+      });
+      const tasteProfile = await loadTasteProfile(history);
+      const resolved = await Promise.all(
+        suggestions.map((suggestion) =>
+          resolveAIRecommendation(suggestion, tasteProfile)
+        )
+      );
+      report.suggested = suggestions.length;
+      report.unresolved = suggestions
+        .filter((_, index) => !resolved[index])
+        .map((suggestion) => suggestion.title);
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return report;
+  };
+
+  const reports: ProfileReport[] = [];
+  for (const profile of profiles) {
+    reports.push(await evaluate(profile));
+  }
+
+  if (args.json) {
+    console.log(
+      JSON.stringify(
+        {
+          promptVersion: getPromptVersion(),
+          provider,
+          model: modelId,
+          summary: summarize(reports),
+          profiles: reports,
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    printReport(
+      reports,
+      `Prompt ${getPromptVersion()} · ${provider}/${modelId} · ${profiles.length} profiles`
+    );
+  }
+};
+
+main().catch((error) => {
+  console.error("Evaluation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+import type { ResolvedRecommendation } from "@/lib/recommendations";
+
+// Metrics for the recommendation eval harness (scripts/eval-recommendations.ts)
+
+export interface EvalRating {
+  id: number;
+  title: string;
+  rating: number;
+}
+
+// A fixture user: the ratings the recommender sees, and high ratings held
+// back from it that a good recommender should find again
+export interface EvalProfile {
+  name: string;
+  ratings: EvalRating[];
+  heldOut: EvalRating[];
+}
+
+export interface ProfileReport {
+  name: string;
+  recommended: number;
+  // Held-out titles that were recommended
+  hits: string[];
+  heldOut: number;
+  // The same movie recommended twice
+  duplicates: number;
+  // Movies the user already rated
+  exclusionViolations: number;
+  // Titles the model suggested and how many TMDB couldn't match
+  suggested: number;
+  unresolved: string[];
+  diversity: number;
+  error?: string;
+}
+
+export const findHits = (
+  recommendations: ResolvedRecommendation[],
+  heldOut: EvalRating[]
+) =>
+  heldOut
+    .filter((movie) => recommendations.some((rec) => rec.id === movie.id))
+    .map((movie) => movie.title);
+
+export const countDuplicates = (recommendations: ResolvedRecommendation[]) =>
+  recommendations.length - new Set(recommendations.map((rec) => rec.id)).size;
+
+export const countExclusionViolations = (
+  recommendations: ResolvedRecommendation[],
+  ratings: EvalRating[]
+) => {
+  const ratedIds = new Set(ratings.map((movie) => movie.id));
+  return recommendations.filter((rec) => ratedIds.has(rec.id)).length;
+};
+
+// Mean pairwise genre distance (1 - Jaccard similarity): 0 when every pick
+// has the same genres, 1 when no two picks share one
+export const genreDiversity = (recommendations: ResolvedRecommendation[]) => {
+  const genreSets = recommendations.map(
+    (rec) => new Set((rec.genres || []).map((genre) => genre.id))
+  );
+
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < genreSets.length; i++) {
+    for (let j = i + 1; j < genreSets.length; j++) {
+      const union = new Set([...genreSets[i], ...genreSets[j]]);
+      const shared = [...genreSets[i]].filter((id) => genreSets[j].has(id));
+      total += union.size === 0 ? 0 : 1 - shared.length / union.size;
+      pairs++;
+    }
+  }
+
+  return pairs === 0 ? 0 : total / pairs;
+};
+
+export const summarize = (reports: ProfileReport[]) => {
+  const sum = (pick: (report: ProfileReport) => number) =>
+    reports.reduce((total, report) => total + pick(report), 0);
+  const evaluated = reports.filter((report) => !report.error);
+
+  return {
+    profiles: reports.length,
+    failedProfiles: reports.length - evaluated.length,
+    hits: sum((report) => report.hits.length),
+    heldOut: sum((report) => report.heldOut),
+    duplicates: sum((report) => report.duplicates),
+    exclusionViolations: sum((report) => report.exclusionViolations),
+    suggested: sum((report) => report.suggested),
+    unresolved: sum((report) => report.unresolved.length),
+    diversity:
+      evaluated.length === 0
+        ? 0
+        : evaluated.reduce((total, report) => total + report.diversity, 0) /
+          evaluated.length,
+  };
+};
@@ -0,0 +1,46 @@
+import { parseArgs } from "node:util";
+import { syncCatalog } from "@/lib/catalog-sync";
+
+// Catalog sync from the command line, e.g. to catch up a large movies table
+// Same job as the /api/catalog/sync cron route, with a longer time budget.
+// Reads DATABASE_URL and the TMDB credentials from .env.local like the app
+//
+// Usage: pnpm catalog:sync [--budget 600]
+//   --budget  seconds to spend before stopping; the next sync carries on
+
+const { values: args } = parseArgs({
+  options: {
+    budget: { type: "string", default: "600" },
+  },
+});
+
+const main = async () => {
+  const report = await syncCatalog({
+    budgetMs: parseInt(args.budget, 10) * 1000,
+  });
+
+  if (!report) {
+    console.log("A catalog sync is already running");
+    return;
+  }
+
+  console.log(
+    [
+      `Catalog sync ${report.status}`,
+      `${report.changed} changed on TMDB`,
+      `updated ${report.updated}`,
+      `failed ${report.failed}`,
+      `removed ${report.removed}`,
+      report.changesCaughtUp
+        ? "changes feed caught up"
+        : "changes feed not caught up",
+    ].join(" · ")
+  );
+  if (report.error) console.error(report.error);
+  if (report.status === "failed") process.exitCode = 1;
+};
+
+main().catch((error) => {
+  console.error("Catalog sync failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,104 @@
+import { createServer, type IncomingMessage } from "node:http";
+import { parseArgs } from "node:util";
+import {
+  fixtureKey,
+  loadFixtures,
+  saveFixture,
+  type FixtureStore,
+} from "./tmdb-mock/fixtures";
+import { fallbackResponse, type MockResponse } from "./tmdb-mock/fallback";
+
+// Local stand-in for the TMDB API, so the app runs without a TMDB key
+// Serves recorded JSON fixtures (scripts/tmdb-mock/fixtures) for the
+// endpoints the app uses; requests that were never recorded are answered
+// from the recorded movies (see tmdb-mock/fallback.ts). Authentication is
+// not checked.
+//
+// In record mode every request is passed on to the real TMDB with the
+// credentials the app sent, and successful responses are saved as fixtures.
+//
+// Usage: pnpm tmdb:mock [--port 4010] [--fixtures scripts/tmdb-mock/fixtures]
+//   [--record] [--upstream https://api.themoviedb.org/3]
+// Point the app at it with TMDB_BASE_URL=http://localhost:4010
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "4010" },
+    fixtures: { type: "string", default: "scripts/tmdb-mock/fixtures" },
+    record: { type: "boolean", default: false },
+    upstream: { type: "string", default: "https://api.themoviedb.org/3" },
+  },
+});
+
+const record = async (
+  request: IncomingMessage,
+  url: URL,
+  store: FixtureStore
+): Promise<MockResponse> => {
+  const response = await fetch(`${args.upstream}${url.pathname}${url.search}`, {
+    headers: {
+      Accept: "application/json",
+      ...(request.headers.authorization && {
+        Authorization: request.headers.authorization,
+      }),
+    },
+  });
+  const body = await response.json();
+
+  if (response.ok) {
+    const key = fixtureKey(url.pathname, url.searchParams);
+    await saveFixture(args.fixtures, store, key, body);
+    console.log(`Recorded ${key}`);
+  }
+
+  return { status: response.status, body };
+};
+
+const respond = async (
+  request: IncomingMessage,
+  url: URL,
+  store: FixtureStore
+): Promise<MockResponse> => {
+  if (request.method !== "GET") {
+    return { status: 405, body: { success: false, status_code: 3 } };
+  }
+  if (args.record) return record(request, url, store);
+
+  const fixture = store.fixtures.get(
+    fixtureKey(url.pathname, url.searchParams)
+  );
+  if (fixture) return { status: 200, body: fixture };
+
+  return fallbackResponse(store, url.pathname, url.searchParams);
+};
+
+const main = async () => {
+  const store = await loadFixtures(args.fixtures);
+
+  const server = createServer(async (request, response) => {
+    // Only the path is logged, the query may hold an API key
+    const url = new URL(request.url || "/", "http://localhost");
+    let result: MockResponse;
+    try {
+      result = await respond(request, url, store);
+    } catch (error) {
+      console.error(`Request ${url.pathname} failed:`, error);
+      result = { status: 502, body: { success: false, status_code: 11 } };
+    }
+
+    console.log(`${result.status} ${request.method} ${url.pathname}`);
+    response.writeHead(result.status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(result.body));
+  });
+
+  server.listen(Number(args.port), () => {
+    console.log(
+      `TMDB stand-in on http://localhost:${args.port} · ${store.fixtures.size} fixtures, ${store.pool.size} movies${args.record ? ` · recording from ${args.upstream}` : ""}`
+    );
+  });
+};
+
+main().catch((error) => {
+  console.error("TMDB stand-in failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+import type { FixtureStore, PoolMovie } from "./fixtures";
+
+// Answers for requests the TMDB stand-in has no recorded fixture for
+// Lists, search and discover are computed from the pool of recorded movies,
+// and a movie's details are built from its pool entry, so a handful of
+// recorded lists is enough to click through the app offline. Filters the
+// pool can't answer (runtime, certification, streaming) are ignored
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+const PAGE_SIZE = 20;
+
+export const notFound = (): MockResponse => ({
+  status: 404,
+  body: {
+    success: false,
+    status_code: 34,
+    status_message: "The resource you requested could not be found.",
+  },
+});
+
+// Pool entries made from recorded details carry extras lists don't have
+const toListMovie = (movie: PoolMovie) => ({
+  id: movie.id,
+  title: movie.title,
+  original_title: movie.original_title,
+  original_language: movie.original_language,
+  overview: movie.overview,
+  poster_path: movie.poster_path,
+  backdrop_path: movie.backdrop_path ?? null,
+  release_date: movie.release_date,
+  vote_average: movie.vote_average,
+  vote_count: movie.vote_count,
+  popularity: movie.popularity,
+  genre_ids: movie.genre_ids,
+});
+
+const paginate = (movies: PoolMovie[], params: URLSearchParams) => {
+  const page = Math.max(parseInt(params.get("page") || "1", 10) || 1, 1);
+  return {
+    page,
+    results: movies
+      .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+      .map(toListMovie),
+    total_pages: Math.max(Math.ceil(movies.length / PAGE_SIZE), 1),
+    total_results: movies.length,
+  };
+};
+
+const SORT_FIELDS: Record<string, (movie: PoolMovie) => number> = {
+  popularity: (movie) => movie.popularity,
+  vote_count: (movie) => movie.vote_count,
+  vote_average: (movie) => movie.vote_average,
+  primary_release_date: (movie) => Date.parse(movie.release_date) || 0,
+};
+
+const sortMovies = (movies: PoolMovie[], sortBy = "popularity.desc") => {
+  const [field, direction] = sortBy.split(".");
+  const value = SORT_FIELDS[field] || SORT_FIELDS.popularity;
+  const sign = direction === "asc" ? 1 : -1;
+  return [...movies].sort((a, b) => sign * (value(a) - value(b)));
+};
+
+// "28,12" means all of the genres, "28|12" any of them
+const matchesGenres = (movie: PoolMovie, withGenres: string) => {
+  const any = withGenres.includes("|");
+  const genreIds = withGenres.split(any ? "|" : ",").map(Number);
+  return any
+    ? genreIds.some((id) => movie.genre_ids.includes(id))
+    : genreIds.every((id) => movie.genre_ids.includes(id));
+};
+
+const discover = (movies: PoolMovie[], params: URLSearchParams) => {
+  const minVotes = Number(params.get("vote_count.gte") || 0);
+  const minAverage = Number(params.get("vote_average.gte") || 0);
+  const releasedAfter = params.get("primary_release_date.gte");
+  const releasedBefore = params.get("primary_release_date.lte");
+  const withGenres = params.get("with_genres");
+  const language = params.get("with_original_language");
+
+  return sortMovies(
+    movies.filter(
+      (movie) =>
+        movie.vote_count >= minVotes &&
+        movie.vote_average >= minAverage &&
+        (!releasedAfter || movie.release_date >= releasedAfter) &&
+        (!releasedBefore || movie.release_date <= releasedBefore) &&
+        (!withGenres || matchesGenres(movie, withGenres)) &&
+        (!language || movie.original_language === language)
+    ),
+    params.get("sort_by") || undefined
+  );
+};
+
+// Stand-in for TMDB's recommendations and similar lists: movies sharing a
+// genre, most-voted first
+const related = (movies: PoolMovie[], movie: PoolMovie) =>
+  sortMovies(
+    movies.filter(
+      (other) =>
+        other.id !== movie.id &&
+        other.genre_ids.some((id) => movie.genre_ids.includes(id))
+    ),
+    "vote_count.desc"
+  );
+
+const movieDetails = (store: FixtureStore, movie: PoolMovie) => {
+  const genreList = store.fixtures.get("/genre/movie/list/index") as
+    { genres?: Array<{ id: number; name: string }> } | undefined;
+  const genreNames = new Map(
+    (genreList?.genres || []).map((genre) => [genre.id, genre.name])
+  );
+  const { genre_ids, ...details } = movie;
+
+  // Extras of a recorded detail response are kept
+  return {
+    backdrop_path: null,
+    runtime: null,
+    genres: genre_ids.map((id) => ({ id, name: genreNames.get(id) || "" })),
+    credits: { cast: [], crew: [] },
+    videos: { results: [] },
+    release_dates: { results: [] },
+    "watch/providers": { results: {} },
+    ...details,
+  };
+};
+
+export const fallbackResponse = (
+  store: FixtureStore,
+  pathname: string,
+  params: URLSearchParams
+): MockResponse => {
+  const movies = Array.from(store.pool.values());
+
+  if (pathname === "/movie/popular") {
+    return { status: 200, body: paginate(sortMovies(movies), params) };
+  }
+
+  if (pathname === "/search/movie") {
+    const query = (params.get("query") || "").toLowerCase();
+    const matches = movies.filter((movie) =>
+      [movie.title, movie.original_title].some((title) =>
+        title?.toLowerCase().includes(query)
+      )
+    );
+    return { status: 200, body: paginate(sortMovies(matches), params) };
+  }
+
+  // Recorded movies never change
+  if (pathname === "/movie/changes") {
+    return { status: 200, body: paginate([], params) };
+  }
+
+  if (pathname === "/discover/movie") {
+    return { status: 200, body: paginate(discover(movies, params), params) };
+  }
+
+  const match = pathname.match(
+    /^\/movie\/(\d+)(?:\/(recommendations|similar))?$/
+  );
+  const movie = match && store.pool.get(Number(match[1]));
+  if (!movie) return notFound();
+
+  return {
+    status: 200,
+    body: match[2]
+      ? paginate(related(movies, movie), params)
+      : movieDetails(store, movie),
+  };
+};
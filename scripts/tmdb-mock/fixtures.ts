@@ -0,0 +1,135 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, relative, sep } from "node:path";
+
+// Fixture store for the TMDB stand-in server (scripts/tmdb-mock-server.ts)
+// Each recorded response is a JSON file named after its request:
+//   /movie/550?append_to_response=credits
+//   -> fixtures/movie/550/append_to_response=credits.json
+// Credentials and the language don't change the fixture a request maps to.
+// Every movie seen in any fixture also goes into a pool, which answers
+// requests that were never recorded (see fallback.ts)
+
+export interface PoolMovie {
+  id: number;
+  title: string;
+  overview?: string;
+  poster_path: string | null;
+  backdrop_path?: string | null;
+  release_date: string;
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  genre_ids: number[];
+  original_language?: string;
+  original_title?: string;
+  // Only set when a detail response was recorded
+  genres?: Array<{ id: number; name: string }>;
+}
+
+export interface FixtureStore {
+  fixtures: Map<string, unknown>;
+  pool: Map<number, PoolMovie>;
+}
+
+const IGNORED_PARAMS = ["api_key", "language"];
+const INDEX_FILE = "index";
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Keys become file paths, so every part is encoded: no separators, and no
+// "." or ".." segments that would step outside the fixtures directory
+const keyPart = (value: string) =>
+  encodeURIComponent(value).replace(/^\.+$/, (dots) =>
+    "%2E".repeat(dots.length)
+  );
+
+export const fixtureKey = (pathname: string, searchParams: URLSearchParams) => {
+  const path = pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => `/${keyPart(decode(segment))}`)
+    .join("");
+  const query = [...searchParams]
+    .filter(([name]) => !IGNORED_PARAMS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${keyPart(name)}=${keyPart(value)}`)
+    .join("&");
+  return `${path}/${query || INDEX_FILE}`;
+};
+
+const isMovie = (value: unknown): value is PoolMovie => {
+  const movie = value as PoolMovie;
+  return typeof movie?.id === "number" && typeof movie?.title === "string";
+};
+
+// Detail responses have genres instead of genre_ids, and win over list entries
+const addToPool = (pool: Map<number, PoolMovie>, data: unknown) => {
+  const results = (data as { results?: unknown[] })?.results;
+  const movies = Array.isArray(results) ? results : [data];
+
+  for (const movie of movies.filter(isMovie)) {
+    const existing = pool.get(movie.id);
+    if (movie.genres) {
+      pool.set(movie.id, {
+        ...existing,
+        ...movie,
+        genre_ids: movie.genres.map((genre) => genre.id),
+      });
+    } else if (!existing) {
+      pool.set(movie.id, movie);
+    }
+  }
+};
+
+const listFiles = async (directory: string): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true }).catch(
+    () => []
+  );
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const path = join(directory, entry.name);
+      return entry.isDirectory() ? listFiles(path) : [path];
+    })
+  );
+  return nested.flat();
+};
+
+export const loadFixtures = async (
+  directory: string
+): Promise<FixtureStore> => {
+  const store: FixtureStore = { fixtures: new Map(), pool: new Map() };
+  const files = (await listFiles(directory)).filter((file) =>
+    file.endsWith(".json")
+  );
+
+  for (const file of files) {
+    const key = `/${relative(directory, file).split(sep).join("/")}`.replace(
+      /\.json$/,
+      ""
+    );
+    const data = JSON.parse(await readFile(file, "utf8"));
+    store.fixtures.set(key, data);
+    addToPool(store.pool, data);
+  }
+
+  return store;
+};
+
+export const saveFixture = async (
+  directory: string,
+  store: FixtureStore,
+  key: string,
+  data: unknown
+) => {
+  const file = join(directory, `${key}.json`);
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+  store.fixtures.set(key, data);
+  addToPool(store.pool, data);
+};
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { isAdminEmail } from "@/lib/admin";
+import { getLLMUsageSummary } from "@/lib/db-utils";
+
+// LLM usage summary API route (admins only, see lib/admin)
+// Model calls, tokens, estimated cost, latency and partial/failed answers
+// over the last ?days=N days (default 30, at most 365), by day and by user
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const days = parseInt(
+      request.nextUrl.searchParams.get("days") || String(DEFAULT_DAYS),
+      10
+    );
+
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `days must be between 1 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getLLMUsageSummary(
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    );
+
+    if (!summary) {
+      return NextResponse.json(
+        { success: false, error: "Failed to summarize LLM usage" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    console.error("❌ API: Error fetching LLM usage summary:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
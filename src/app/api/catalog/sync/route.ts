@@ -0,0 +1,29 @@
+import { isCronRequest } from "@/lib/cron";
+import { syncCatalog } from "@/lib/catalog-sync";
+
+// Catalog sync, called by a scheduler (e.g. Vercel Cron) every hour.
+// Refreshes cached movies from TMDB's changes feed and rows past their TTL
+// for up to SYNC_BUDGET_MS; the next call continues (see lib/catalog-sync).
+// Requires Authorization: Bearer $CRON_SECRET (see lib/cron)
+
+export const maxDuration = 60;
+
+// Leaves room to record the run before maxDuration
+const SYNC_BUDGET_MS = 50000;
+
+export async function GET(req: Request) {
+  if (!isCronRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const report = await syncCatalog({ budgetMs: SYNC_BUDGET_MS });
+
+  if (!report) {
+    return Response.json(
+      { error: "A catalog sync is already running" },
+      { status: 409 }
+    );
+  }
+
+  return Response.json(report);
+}
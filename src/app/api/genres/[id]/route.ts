@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { API_CONFIG } from "@/lib/constants";
+import { getMoviesByGenre } from "@/lib/tmdb-client";
 
 // Genre movies API route with hourly caching for genre movie freshness
 // Uses dual-caching: server-side Next.js cache + client-side React Query cache
@@ -9,43 +9,20 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { searchParams } = new URL(request.url);
-  const page = searchParams.get("page") || "1";
+  const page = Number(searchParams.get("page")) || 1;
   const { id: genreId } = await params;
 
   if (!genreId || isNaN(Number(genreId))) {
     return NextResponse.json({ error: "Invalid genre ID" }, { status: 400 });
   }
 
-  const apiKey = process.env.TMDB_API_KEY;
-
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "TMDB API key not configured" },
-      { status: 500 }
-    );
-  }
-
   try {
-    const response = await fetch(
-      `${API_CONFIG.TMDB_BASE_URL}/discover/movie?api_key=${apiKey}&language=${API_CONFIG.DEFAULT_LANGUAGE}&with_genres=${genreId}&page=${page}&sort_by=popularity.desc`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        next: {
-          revalidate: 60 * 60,
-          tags: [`genre-${genreId}-page-${page}`],
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
+    const data = await getMoviesByGenre(Number(genreId), page, {
+      next: {
+        revalidate: 60 * 60,
+        tags: [`genre-${genreId}-page-${page}`],
+      },
+    });
 
     return NextResponse.json(data, {
       headers: {
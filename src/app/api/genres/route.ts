@@ -1,40 +1,17 @@
 import { NextResponse } from "next/server";
-import { API_CONFIG } from "@/lib/constants";
+import { getMovieGenres } from "@/lib/tmdb-client";
 
 // Genres API route with extended caching for stable genre data
 // Uses dual-caching: server-side Next.js cache + client-side React Query cache
 
 export async function GET() {
-  const apiKey = process.env.TMDB_API_KEY;
-
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "TMDB API key not configured" },
-      { status: 500 }
-    );
-  }
-
   try {
-    const response = await fetch(
-      `${API_CONFIG.TMDB_BASE_URL}/genre/movie/list?api_key=${apiKey}&language=${API_CONFIG.DEFAULT_LANGUAGE}`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        next: {
-          revalidate: 60 * 60 * 24 * 7,
-          tags: ["genres-list"],
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
+    const data = await getMovieGenres({
+      next: {
+        revalidate: 60 * 60 * 24 * 7,
+        tags: ["genres-list"],
+      },
+    });
 
     return NextResponse.json(data, {
       headers: {
@@ -1,56 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const TMDB_BASE_URL = "https://api.themoviedb.org/3";
+import { getCachedMovieDetails } from "@/lib/movie-cache";
+import { TMDBError } from "@/lib/tmdb-client";
 
 // Movie details API route with extended caching for stable movie data
-// Uses dual-caching: server-side Next.js cache + client-side React Query cache
-
-const getApiKey = (): string => {
-  const apiKey = process.env.TMDB_API_KEY || "";
-  if (!apiKey) {
-    console.warn(
-      "TMDB API key not found. Please set TMDB_API_KEY in your environment variables."
-    );
-  }
-  return apiKey;
-};
+// Served from the movies table cache (lib/movie-cache), then cached again by
+// the CDN and the client-side React Query cache
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const apiKey = getApiKey();
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "TMDB API key not configured" },
-        { status: 500 }
-      );
-    }
-
     const { id: movieId } = await params;
 
     if (!movieId || isNaN(Number(movieId))) {
       return NextResponse.json({ error: "Invalid movie ID" }, { status: 400 });
     }
 
-    const url = `${TMDB_BASE_URL}/movie/${movieId}?api_key=${apiKey}&language=en-US`;
-
-    const response = await fetch(url, {
-      next: {
-        revalidate: 60 * 60 * 24,
-        tags: [`movie-${movieId}`],
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const movie = await response.json();
+    const movie = await getCachedMovieDetails(Number(movieId));
 
     return NextResponse.json(movie, {
       headers: {
@@ -59,6 +26,10 @@ export async function GET(
       },
     });
   } catch (error) {
+    if (error instanceof TMDBError && error.status === 404) {
+      return NextResponse.json({ error: "Movie not found" }, { status: 404 });
+    }
+
     console.error("Error fetching movie details:", error);
     return NextResponse.json(
       { error: "Failed to fetch movie details" },
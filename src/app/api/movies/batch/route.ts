@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { MOVIE_BATCH_CONFIG } from "@/lib/constants";
+import { getCachedMovieDetailsBatch } from "@/lib/movie-cache";
+import type { TMDBMovie } from "@/lib/tmdb";
+
+// Batched movie details API route for lists of rated and saved movies
+// Served from the movies table cache (lib/movie-cache); only the misses go to
+// TMDB. Returns { movies, errors }, both keyed by movie id
+
+const batchRequestSchema = z.object({
+  ids: z
+    .array(z.number().int().positive())
+    .min(1)
+    .max(MOVIE_BATCH_CONFIG.MAX_IDS),
+});
+
+// Lists don't need credits, videos or release dates, which make up most of
+// a cached payload
+const toListDetails = (movie: TMDBMovie): TMDBMovie => ({
+  id: movie.id,
+  title: movie.title,
+  overview: movie.overview,
+  poster_path: movie.poster_path,
+  backdrop_path: movie.backdrop_path,
+  release_date: movie.release_date,
+  vote_average: movie.vote_average,
+  vote_count: movie.vote_count,
+  genre_ids: movie.genre_ids || movie.genres?.map((genre) => genre.id) || [],
+  genres: movie.genres,
+  popularity: movie.popularity,
+  runtime: movie.runtime,
+});
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const parsed = batchRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: `Expected 1 to ${MOVIE_BATCH_CONFIG.MAX_IDS} movie ids`,
+        details: parsed.error.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { movies, errors } = await getCachedMovieDetailsBatch([
+      ...new Set(parsed.data.ids),
+    ]);
+
+    return NextResponse.json({
+      movies: Object.fromEntries(
+        Object.entries(movies).map(([id, movie]) => [id, toListDetails(movie)])
+      ),
+      errors,
+    });
+  } catch (error) {
+    console.error("Error fetching movie details batch:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch movie details" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { API_CONFIG } from "@/lib/constants";
+import { getPopularMovies } from "@/lib/tmdb-client";
 
 // Popular movies API route with Next.js fetch caching and ISR
 // Uses dual-caching: server-side Next.js cache + client-side React Query cache
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const page = searchParams.get("page") || "1";
-
-  const apiKey = process.env.TMDB_API_KEY;
-
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "TMDB API key not configured" },
-      { status: 500 }
-    );
-  }
+  const page = Number(searchParams.get("page")) || 1;
 
   try {
-    const response = await fetch(
-      `${API_CONFIG.TMDB_BASE_URL}/movie/popular?api_key=${apiKey}&language=${API_CONFIG.DEFAULT_LANGUAGE}&page=${page}`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        next: {
-          revalidate: 60 * 60,
-          tags: [`popular-movies-page-${page}`],
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
+    const data = await getPopularMovies(page, {
+      next: {
+        revalidate: 60 * 60,
+        tags: [`popular-movies-page-${page}`],
+      },
+    });
 
     return NextResponse.json(data, {
       headers: {
@@ -1,24 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const TMDB_BASE_URL = "https://api.themoviedb.org/3";
+import { searchMovies } from "@/lib/tmdb-client";
 
 // Movie search API route with short-term caching for search freshness
 // Uses dual-caching: server-side Next.js cache + client-side React Query cache
 
-const getApiKey = (): string => {
-  const apiKey = process.env.TMDB_API_KEY || "";
-  if (!apiKey) {
-    console.warn(
-      "TMDB API key not found. Please set TMDB_API_KEY in your environment variables."
-    );
-  }
-  return apiKey;
-};
-
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get("query");
-  const page = searchParams.get("page") || "1";
+  const page = Number(searchParams.get("page")) || 1;
 
   if (!query) {
     return NextResponse.json(
@@ -27,38 +16,13 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const apiKey = getApiKey();
-
-  if (!apiKey) {
-    return NextResponse.json(
-      { error: "TMDB API key not configured" },
-      { status: 500 }
-    );
-  }
-
   try {
-    const encodedQuery = encodeURIComponent(query);
-
-    const response = await fetch(
-      `${TMDB_BASE_URL}/search/movie?api_key=${apiKey}&language=en-US&query=${encodedQuery}&page=${page}`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-        next: {
-          revalidate: 60 * 30,
-          tags: [`search-${encodedQuery}-page-${page}`],
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
+    const data = await searchMovies(query, page, {
+      next: {
+        revalidate: 60 * 30,
+        tags: [`search-${encodeURIComponent(query)}-page-${page}`],
+      },
+    });
 
     return NextResponse.json(data, {
       headers: {
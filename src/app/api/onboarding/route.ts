@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { saveFavoriteGenres } from "@/lib/db-utils";
+import {
+  buildOnboardingGrid,
+  getOnboardingStatus,
+  ONBOARDING_GENRES,
+  onboardingGenresRequestSchema,
+} from "@/lib/recommendations";
+
+// Onboarding API route for new accounts
+// GET returns the user's progress, the genres to pick from and the grid of
+// well-known films to rate (biased towards the favorite genres once picked);
+// POST saves the favorite genres. Ratings go through /api/user-ratings
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const status = await getOnboardingStatus(session.user.email);
+
+    if (!status) {
+      return NextResponse.json(
+        { success: false, error: "Failed to load your profile" },
+        { status: 500 }
+      );
+    }
+
+    const movies = await buildOnboardingGrid(status.favoriteGenres);
+
+    return NextResponse.json({
+      success: true,
+      status,
+      genres: ONBOARDING_GENRES,
+      movies,
+    });
+  } catch (error) {
+    console.error("❌ API: Error loading onboarding:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = onboardingGenresRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid favorite genres",
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const success = await saveFavoriteGenres(
+      session.user.email,
+      parsed.data.favoriteGenres
+    );
+
+    return NextResponse.json({ success }, { status: success ? 200 : 500 });
+  } catch (error) {
+    console.error("❌ API: Error saving favorite genres:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
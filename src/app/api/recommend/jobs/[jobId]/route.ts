@@ -0,0 +1,39 @@
+import { auth } from "@/auth";
+import { getRecommendationJob } from "@/lib/db-utils";
+import {
+  RECOMMENDATION_STAGE_MESSAGES,
+  recommendationJobIdSchema,
+} from "@/lib/recommendations";
+
+// Status of a queued recommendation job (see POST /api/recommend)
+// status: queued → running → completed | failed; stage says which pipeline
+// step is running and message describes it for the loading screen.
+// results holds the recommendations once the job has completed
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return Response.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { jobId } = await params;
+  const job = recommendationJobIdSchema.safeParse(jobId).success
+    ? await getRecommendationJob(session.user.email, jobId)
+    : null;
+
+  if (!job) {
+    return Response.json(
+      { error: "Recommendation job not found" },
+      { status: 404 }
+    );
+  }
+
+  return Response.json({
+    ...job,
+    message: RECOMMENDATION_STAGE_MESSAGES[job.stage],
+  });
+}
@@ -0,0 +1,123 @@
+import { auth } from "@/auth";
+import { getUserMovieHistory, saveRecommendations } from "@/lib/db-utils";
+import {
+  assertProfileReady,
+  consumeRecommendationQuota,
+  getResumableRun,
+  parseRecommendRequest,
+  RECOMMENDATION_COUNT,
+  RECOMMENDATION_STAGE_MESSAGES,
+  recommendationErrorResponse,
+  runRecommendationPipeline,
+  serializeRecommendationError,
+  startRecommendationRun,
+  type ResolvedRecommendation,
+} from "@/lib/recommendations";
+import { createSSEResponse } from "@/lib/sse";
+
+// Streaming AI recommendations over Server-Sent Events
+// Each recommendation is sent (and saved) as soon as it has been resolved against TMDB and scored
+//
+// EVENTS: start (with the run id) → stage (each pipeline step, with a progress
+// message) and recommendation (one per movie) → done, or error
+// RECONNECTION: clients resume by re-posting with excludeMovieIds (already received),
+// count (how many are still missing) and runId; nothing is regenerated for them
+// and the results are added to the same recommendation run
+// CANCELLATION: closing the connection aborts the model call and TMDB lookups
+// QUOTA: each generation counts against the user's quota, resumes excepted;
+// over-quota requests get a 429 with Retry-After before any streaming starts.
+// Only a recent run that is still running or was cancelled can be resumed,
+// and only for the picks it still owes; other resumes get a 409
+// ONBOARDING: users without enough ratings get a 409 instead
+
+export async function POST(req: Request) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return Response.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const parsed = await parseRecommendRequest(req);
+
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid recommendation request", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const userEmail = session.user.email;
+  const { excludeMovieIds, runId, constraints } = parsed.data;
+  let count = parsed.data.count ?? RECOMMENDATION_COUNT;
+
+  // Loaded before the quota is consumed, so this failure doesn't cost a
+  // generation
+  const history = await getUserMovieHistory(userEmail);
+
+  if (!history) {
+    return Response.json(
+      { error: "Failed to load your movie history" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    await assertProfileReady(userEmail);
+    const resumeRun = runId
+      ? await getResumableRun(userEmail, runId)
+      : undefined;
+    await consumeRecommendationQuota(userEmail, "generation", { resumeRun });
+    if (resumeRun) count = Math.min(count, resumeRun.remaining);
+  } catch (error) {
+    return recommendationErrorResponse(error);
+  }
+
+  const run = await startRecommendationRun({
+    userEmail,
+    history,
+    count,
+    excludeMovieIds,
+    constraints,
+    runId,
+  });
+
+  return createSSEResponse(req, async ({ send, signal }) => {
+    // Kept for the run record, which also covers failed and cancelled streams
+    const received: ResolvedRecommendation[] = [];
+
+    try {
+      send("start", { count, runId: run.runId });
+
+      const recommendations = await runRecommendationPipeline({
+        history,
+        count,
+        excludeMovieIds,
+        constraints,
+        abortSignal: signal,
+        telemetry: { userEmail, runId: run.runId },
+        onStage: (stage) =>
+          send("stage", {
+            stage,
+            message: RECOMMENDATION_STAGE_MESSAGES[stage],
+          }),
+        onRecommendation: async (recommendation) => {
+          await saveRecommendations(userEmail, [recommendation]);
+          received.push(recommendation);
+          send("recommendation", recommendation);
+        },
+      });
+
+      await run.finish(received, signal.aborted ? "cancelled" : "completed");
+      send("done", { count: recommendations.length });
+    } catch (error) {
+      if (signal.aborted) {
+        await run.finish(received, "cancelled");
+      } else {
+        console.error("Recommendation stream error:", error);
+        await run.finish(received, "failed", error);
+        const { status, ...payload } = serializeRecommendationError(error);
+        send("error", { ...payload, status });
+      }
+    }
+  });
+}
@@ -0,0 +1,18 @@
+import { isCronRequest } from "@/lib/cron";
+import { scheduleWeeklyDigests } from "@/lib/recommendations";
+
+// Weekly picks scheduler, called by a scheduler (e.g. Vercel Cron) once a day.
+// Queues a digest for each active user whose ratings changed since their last
+// run and hasn't had one this week, then starts on them; the job worker
+// finishes whatever doesn't fit in this call (see lib/recommendations/digest).
+// Requires Authorization: Bearer $CRON_SECRET (see lib/cron)
+
+export const maxDuration = 60;
+
+export async function GET(req: Request) {
+  if (!isCronRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return Response.json(await scheduleWeeklyDigests());
+}
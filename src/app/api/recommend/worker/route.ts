@@ -0,0 +1,17 @@
+import { isCronRequest } from "@/lib/cron";
+import { runRecommendationWorker } from "@/lib/recommendations";
+
+// Recommendation job worker, called by a scheduler (e.g. Vercel Cron) every
+// minute. Processes queued jobs and retries ones whose worker died.
+// Requires Authorization: Bearer $CRON_SECRET (see lib/cron)
+
+export const maxDuration = 60;
+
+export async function GET(req: Request) {
+  if (!isCronRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const processed = await runRecommendationWorker();
+  return Response.json({ processed });
+}
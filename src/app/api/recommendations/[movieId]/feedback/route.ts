@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { saveRecommendationFeedback } from "@/lib/db-utils";
+import { recommendationFeedbackRequestSchema } from "@/lib/recommendations";
+
+// Recommendation feedback API route
+// Records "not interested", "seen it" and "added to watchlist" actions on a
+// recommendation card. Future generations exclude these movies and use
+// "not interested" as a negative taste signal.
+// A quick rating for "seen it" goes through /api/user-ratings as usual
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ movieId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { movieId: movieIdParam } = await params;
+    const movieId = parseInt(movieIdParam);
+
+    if (isNaN(movieId)) {
+      return NextResponse.json({ error: "Invalid movie ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = recommendationFeedbackRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid feedback", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const recommendation = await saveRecommendationFeedback(
+      session.user.email,
+      movieId,
+      parsed.data.feedback
+    );
+
+    if (!recommendation) {
+      return NextResponse.json(
+        { error: "Recommendation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      feedback: recommendation.feedback,
+    });
+  } catch (error) {
+    console.error("Error saving recommendation feedback:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getUnseenWeeklyDigest, markWeeklyDigestsSeen } from "@/lib/db-utils";
+
+// Weekly picks API route
+// GET returns the newest weekly digest the user hasn't opened (run: null when
+// there is none); POST marks digests as seen, which clears the header badge
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const run = await getUnseenWeeklyDigest(session.user.email);
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error("❌ API: Error fetching weekly digest:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const success = await markWeeklyDigestsSeen(session.user.email);
+
+    return NextResponse.json({ success }, { status: success ? 200 : 500 });
+  } catch (error) {
+    console.error("❌ API: Error marking weekly digest seen:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getRecommendationQuota } from "@/lib/recommendations";
+
+// Recommendation quota API route
+// How many generations the user has left today and, when they can't
+// generate right now, when they can again (see lib/recommendations/quota)
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const quota = await getRecommendationQuota(session.user.email);
+
+    if (!quota) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, quota });
+  } catch (error) {
+    console.error("❌ API: Error fetching recommendation quota:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,18 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/auth";
-import { getUserRecommendations, getLastRecommendations } from "@/lib/db-utils";
+import {
+  getUserRecommendations,
+  getLatestCompletedRecommendationRun,
+  getRecommendationChat,
+  getRecommendationFeedback,
+} from "@/lib/db-utils";
+import { getCurrentPicks } from "@/lib/recommendations";
 
 // User recommendations API route with database queries
 // Uses server-side authentication and database queries for user-specific data
+// ?last=true returns the cards of the latest completed run the user generated,
+// as the refine chat left them, and that run's id. The chat resolves "the
+// second one" against the same picks, so cards and chat can't drift apart
 
 export async function GET(request: Request) {
   try {
@@ -16,14 +25,27 @@ export async function GET(request: Request) {
     const userEmail = session.user.email;
 
     const { searchParams } = new URL(request.url);
-    const limit = searchParams.get("limit");
     const lastOnly = searchParams.get("last") === "true";
 
     let recommendations;
+    let runId: string | null = null;
 
     if (lastOnly) {
-      const limitNumber = limit ? parseInt(limit, 10) : 5;
-      recommendations = await getLastRecommendations(userEmail, limitNumber);
+      const run = await getLatestCompletedRecommendationRun(userEmail);
+      const chat = run ? await getRecommendationChat(userEmail, run.id) : null;
+      const picks = chat ? getCurrentPicks(chat.run, chat.messages) : [];
+      const feedback = await getRecommendationFeedback(
+        userEmail,
+        picks.map((pick) => pick.id)
+      );
+
+      // Cards the user dismissed or has already seen stay hidden
+      recommendations = picks
+        .map((pick) => ({ ...pick, feedback: feedback.get(pick.id) }))
+        .filter(
+          (pick) => !pick.feedback || pick.feedback === "added_to_watchlist"
+        );
+      runId = chat?.run.id ?? null;
     } else {
       recommendations = await getUserRecommendations(userEmail);
     }
@@ -32,6 +54,7 @@ export async function GET(request: Request) {
       success: true,
       recommendations,
       count: recommendations.length,
+      ...(lastOnly && { runId }),
     });
   } catch (error) {
     console.error("❌ API: Error fetching user recommendations:", error);
@@ -0,0 +1,177 @@
+import { auth } from "@/auth";
+import {
+  getRecommendationChat,
+  getUserMovieHistory,
+  saveRecommendationChatMessage,
+  saveRecommendations,
+} from "@/lib/db-utils";
+import {
+  consumeRecommendationQuota,
+  getCurrentConstraints,
+  getCurrentPicks,
+  getRecommendationModel,
+  interpretRefinement,
+  recommendationChatRequestSchema,
+  recommendationErrorResponse,
+  recommendationRunIdSchema,
+  runRecommendationPipeline,
+  serializeRecommendationError,
+  toRunResult,
+  type Refinement,
+  type ResolvedRecommendation,
+} from "@/lib/recommendations";
+import { createSSEResponse } from "@/lib/sse";
+
+// "Refine these picks" chat on a recommendation run
+// GET returns the conversation so far and the picks it left on the cards.
+// POST takes a message ("less horror, more like the second one"), works out
+// the changes and streams revised recommendations from the usual pipeline,
+// so they still come from the user's taste profile and exclusions
+//
+// EVENTS: reply (what changes, and whether the picks replace or add to the
+// cards) → recommendation (one per movie) → done (with the saved turn), or error
+// Both turns are persisted; a cancelled turn keeps whatever arrived
+// Each message counts against the same quota as a generation
+
+type RunParams = { params: Promise<{ runId: string }> };
+
+const loadChat = async (userEmail: string, runId: string) =>
+  recommendationRunIdSchema.safeParse(runId).success
+    ? getRecommendationChat(userEmail, runId)
+    : null;
+
+export async function GET(_req: Request, { params }: RunParams) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return Response.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const chat = await loadChat(session.user.email, (await params).runId);
+
+  if (!chat) {
+    return Response.json(
+      { error: "Recommendation run not found" },
+      { status: 404 }
+    );
+  }
+
+  return Response.json({
+    messages: chat.messages,
+    picks: getCurrentPicks(chat.run, chat.messages),
+    constraints: getCurrentConstraints(chat.run, chat.messages),
+  });
+}
+
+export async function POST(req: Request, { params }: RunParams) {
+  const session = await auth();
+
+  if (!session?.user?.email) {
+    return Response.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = recommendationChatRequestSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid chat message", details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const userEmail = session.user.email;
+  const { runId } = await params;
+  const chat = await loadChat(userEmail, runId);
+
+  if (!chat) {
+    return Response.json(
+      { error: "Recommendation run not found" },
+      { status: 404 }
+    );
+  }
+
+  // Loaded before the quota is consumed, so this failure doesn't cost a turn
+  const history = await getUserMovieHistory(userEmail);
+
+  if (!history) {
+    return Response.json(
+      { error: "Failed to load your movie history" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    await consumeRecommendationQuota(userEmail, "refinement");
+  } catch (error) {
+    return recommendationErrorResponse(error);
+  }
+
+  const { message } = parsed.data;
+  const picks = getCurrentPicks(chat.run, chat.messages);
+  const constraints = getCurrentConstraints(chat.run, chat.messages);
+
+  await saveRecommendationChatMessage(userEmail, runId, {
+    role: "user",
+    content: message,
+  });
+
+  return createSSEResponse(req, async ({ send, signal }) => {
+    let refinement: Refinement | null = null;
+    const received: ResolvedRecommendation[] = [];
+
+    const saveReply = () =>
+      refinement &&
+      saveRecommendationChatMessage(userEmail, runId, {
+        role: "assistant",
+        content: refinement.reply,
+        mode: refinement.mode,
+        constraints: refinement.constraints,
+        recommendations: received.map(toRunResult),
+      });
+
+    try {
+      const { model } = getRecommendationModel();
+      refinement = await interpretRefinement({
+        model,
+        history,
+        picks,
+        messages: chat.messages,
+        message,
+        constraints,
+        abortSignal: signal,
+        telemetry: { userEmail, runId },
+      });
+      send("reply", {
+        reply: refinement.reply,
+        mode: refinement.mode,
+        count: refinement.count,
+        constraints: refinement.constraints,
+      });
+
+      await runRecommendationPipeline({
+        history,
+        count: refinement.count,
+        excludeMovieIds: picks.map((pick) => pick.id),
+        constraints: refinement.constraints,
+        seedMovies: refinement.seedMovies,
+        abortSignal: signal,
+        telemetry: { userEmail, runId },
+        onRecommendation: async (recommendation) => {
+          await saveRecommendations(userEmail, [recommendation]);
+          received.push(recommendation);
+          send("recommendation", recommendation);
+        },
+      });
+
+      send("done", { message: await saveReply() });
+    } catch (error) {
+      await saveReply();
+      if (!signal.aborted) {
+        console.error("Recommendation chat error:", error);
+        const { status, ...payload } = serializeRecommendationError(error);
+        send("error", { ...payload, status });
+      }
+    }
+  });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getRecommendationRuns } from "@/lib/db-utils";
+
+// Recommendation history API route
+// Pages through the user's recommendation runs, newest first. Each run carries
+// its inputs, model, prompt version, latency and the batch it produced
+
+const PAGE_SIZE = 10;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10), 1);
+
+    if (isNaN(page)) {
+      return NextResponse.json({ error: "Invalid page" }, { status: 400 });
+    }
+
+    const { runs, hasMore } = await getRecommendationRuns(
+      session.user.email,
+      page,
+      PAGE_SIZE
+    );
+
+    return NextResponse.json({ success: true, runs, page, hasMore });
+  } catch (error) {
+    console.error("❌ API: Error fetching recommendation runs:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
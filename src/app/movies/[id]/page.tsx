@@ -1,6 +1,7 @@
 import { notFound } from "next/navigation";
 import { MovieDetailsWithBreadcrumbs } from "@/components/movies";
 import { getMovieData } from "@/lib/server-functions";
+import { getPopularMovies, isTMDBConfigured } from "@/lib/tmdb-client";
 import { API_CONFIG } from "@/lib/constants";
 
 // RENDERING STRATEGY: ISR (Incremental Static Regeneration) with Static Generation
@@ -29,34 +30,20 @@ export const revalidate = 300;
  * 4. Fall back to on-demand generation for other movies
  */
 export async function generateStaticParams() {
-  try {
-    const apiKey = process.env.TMDB_API_KEY;
-
-    if (!apiKey) {
-      console.warn(
-        "TMDB API key not available during build, skipping static generation"
-      );
-      return [];
-    }
-
-    // Fetch top 20 popular movies to pre-generate
-    const response = await fetch(
-      `https://api.themoviedb.org/3/movie/popular?api_key=${apiKey}&language=en-US&page=1`,
-      {
-        headers: { "Content-Type": "application/json" },
-        // No caching during build time - we want fresh data
-      }
+  if (!isTMDBConfigured()) {
+    console.warn(
+      "TMDB API key not available during build, skipping static generation"
     );
+    return [];
+  }
 
-    if (!response.ok) {
-      console.warn("Failed to fetch popular movies for static generation");
-      return [];
-    }
-
-    const data = await response.json();
+  try {
+    // Fetch top 20 popular movies to pre-generate
+    // No caching during build time - we want fresh data
+    const data = await getPopularMovies(1);
 
     // Generate params for top 20 popular movies
-    return data.results.slice(0, 20).map((movie: { id: number }) => ({
+    return data.results.slice(0, 20).map((movie) => ({
       id: movie.id.toString(),
     }));
   } catch (error) {
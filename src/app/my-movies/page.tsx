@@ -12,7 +12,11 @@ export const metadata = {
   keywords: ["my movies", "ratings", "watchlist", "personal", "collection"],
 };
 
-export default async function MyMoviesPageRoute() {
+export default async function MyMoviesPageRoute({
+  searchParams,
+}: {
+  searchParams: Promise<{ tab?: string }>;
+}) {
   const session = await auth();
 
   if (!session?.user) {
@@ -21,5 +25,12 @@ export default async function MyMoviesPageRoute() {
 
   const userData = await getUserRatedMovies();
 
-  return <MyMoviesPage initialData={userData} />;
+  const { tab } = await searchParams;
+
+  return (
+    <MyMoviesPage
+      initialData={userData}
+      initialTab={tab === "history" ? "history" : undefined}
+    />
+  );
 }
@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/auth";
+import { OnboardingWizard } from "@/components/onboarding";
+
+// Server-Side Rendering (SSR) page for the onboarding wizard
+// New accounts land here after registering; requires authentication
+
+export const metadata = {
+  title: "Get Started - Reel Matchmaker",
+  description:
+    "Pick your favorite genres and rate a few films to unlock recommendations",
+};
+
+export default async function OnboardingPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect("/login");
+  }
+
+  return <OnboardingWizard />;
+}
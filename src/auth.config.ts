@@ -10,8 +10,9 @@ export const authConfig = {
     authorized({ auth, request: { nextUrl } }) {
       const loggedIn = !!auth?.user;
       const myMoviesPage = nextUrl.pathname.startsWith("/my-movies");
+      const onboardingPage = nextUrl.pathname.startsWith("/onboarding");
 
-      if (myMoviesPage) return loggedIn;
+      if (myMoviesPage || onboardingPage) return loggedIn;
       return true;
     },
   },
@@ -6,10 +6,12 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { signIn } from "next-auth/react";
 
 // Client Component for interactive form handling with React Hook Form
 // Used within SSG pages for optimal performance and SEO
 // Handles client-side validation and registration API calls
+// New accounts are signed in and sent to onboarding to build a taste profile
 
 const registerSchema = z
   .object({
@@ -63,9 +65,21 @@ export function RegisterForm() {
         throw new Error(result.error || "Registration failed");
       }
 
-      router.push(
-        "/login?message=Account created successfully! Please sign in."
-      );
+      const signInResult = await signIn("credentials", {
+        email: data.email,
+        password: data.password,
+        redirect: false,
+      });
+
+      if (signInResult?.error) {
+        router.push(
+          "/login?message=Account created successfully! Please sign in."
+        );
+        return;
+      }
+
+      router.push("/onboarding");
+      router.refresh();
     } catch (error) {
       setError(error instanceof Error ? error.message : "Registration failed");
     } finally {
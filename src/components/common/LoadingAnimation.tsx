@@ -17,6 +17,9 @@ interface LoadingAnimationProps {
   estimatedDuration?: number;
   preventReset?: boolean;
   showIcon?: boolean;
+  // Known progress (0-100), e.g. from a background job; replaces the
+  // step and time based estimate
+  progress?: number;
 }
 
 export const LoadingAnimation = ({
@@ -31,6 +34,7 @@ export const LoadingAnimation = ({
   estimatedDuration,
   preventReset = false,
   showIcon = true,
+  progress,
 }: LoadingAnimationProps) => {
   const [currentStep, setCurrentStep] = useState(0);
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -58,6 +62,8 @@ export const LoadingAnimation = ({
   }, [steps.length, effectiveStepInterval, preventReset, currentStep]);
 
   const getProgressPercentage = () => {
+    if (progress !== undefined) return progress;
+
     if (estimatedDuration && preventReset) {
       const timeProgress = Math.min(
         (elapsedTime / estimatedDuration) * 100,
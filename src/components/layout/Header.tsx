@@ -4,10 +4,13 @@ import Link from "next/link";
 import { signOut, useSession } from "next-auth/react";
 import { useState } from "react";
 import Image from "next/image";
+import { useWeeklyDigest } from "@/hooks/user";
 
 // HEADER COMPONENT: Main navigation and branding with authentication
 // This component provides the top navigation bar with branding, links, and conditional auth
 // Shows Sign In/Create Account when not authenticated, Sign Out when authenticated
+// A dot on the avatar and a "New picks for you" menu item announce an unopened
+// weekly digest; following it opens the recommendation history
 //
 // SCALING CONSIDERATIONS:
 // - TRADEOFFS: Dynamic content based on session, requires client-side rendering
@@ -22,6 +25,7 @@ export const Header = () => {
   const { data: session, status } = useSession();
   const isLoading = status === "loading";
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const { hasNewPicks, markSeen } = useWeeklyDigest();
 
   const handleSignOut = async () => {
     await signOut({ redirectTo: "/" });
@@ -31,6 +35,11 @@ export const Header = () => {
     setIsUserMenuOpen(!isUserMenuOpen);
   };
 
+  const handleOpenNewPicks = () => {
+    markSeen();
+    setIsUserMenuOpen(false);
+  };
+
   return (
     <header className="bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-700">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -82,12 +91,16 @@ export const Header = () => {
                     className="flex items-center space-x-2 text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white transition-colors px-3 py-2 rounded-md text-sm font-medium"
                   >
                     {/* User Avatar Icon */}
-                    <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+                    <div className="relative w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
                       <span className="text-white font-medium text-sm">
                         {session.user?.name?.[0]?.toUpperCase() ||
                           session.user?.email?.[0]?.toUpperCase() ||
                           "U"}
                       </span>
+                      {/* New Picks Badge */}
+                      {hasNewPicks && (
+                        <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-red-500 rounded-full border-2 border-white dark:border-slate-900" />
+                      )}
                     </div>
                     <span>{session.user?.name || session.user?.email}</span>
                     {/* Dropdown Arrow */}
@@ -111,6 +124,16 @@ export const Header = () => {
                   {/* User Menu Dropdown */}
                   {isUserMenuOpen && (
                     <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-slate-800 rounded-md shadow-lg py-1 z-50 border border-slate-200 dark:border-slate-700">
+                      {hasNewPicks && (
+                        <Link
+                          href="/my-movies?tab=history"
+                          onClick={handleOpenNewPicks}
+                          className="flex items-center justify-between px-4 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                          New picks for you
+                          <span className="w-2 h-2 bg-red-500 rounded-full" />
+                        </Link>
+                      )}
                       <button
                         onClick={handleSignOut}
                         className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
@@ -5,6 +5,7 @@ import { useMovies } from "@/hooks";
 import { useRatedMoviesDb } from "@/hooks/user/useRatedMoviesDb";
 import { useWantToWatchDb } from "@/hooks/user/useWantToWatchDb";
 import { useRecommendations } from "@/hooks/user/useRecommendations";
+import { useRecommendationQuota } from "@/hooks/user/useRecommendationQuota";
 import { useMovieActionsDb } from "@/hooks/user/useMovieActionsDb";
 import {
   MovieGrid,
@@ -38,13 +39,23 @@ export const MovieApp = () => {
   const { wantToWatchList } = useWantToWatchDb();
 
   // Recommendations Hook: Manages AI-powered movie recommendations
-  // Pass the actual ratedMovies and wantToWatchList to ensure consistency
+  // The server derives the taste profile from the database, so no data is passed in
   const {
     recommendations,
     isGeneratingRecommendations,
     isLoadingLastRecommendations,
+    progress,
     generateRecommendations,
-  } = useRecommendations(ratedMovies, wantToWatchList);
+    cancelRecommendations,
+    giveFeedback,
+    constraints,
+    setConstraints,
+    runId,
+    addRevisedRecommendation,
+  } = useRecommendations();
+
+  // Quota Hook: Generations left today; the generate button waits when it runs out
+  const { quota, canGenerate } = useRecommendationQuota();
 
   // Movie Actions Hook: Now includes optimistic updates
   const { rateMovie, removeRating, toggleWantToWatch } = useMovieActionsDb();
@@ -229,12 +240,21 @@ export const MovieApp = () => {
           wantToWatchCount={wantToWatchList.length}
           wantToWatchList={wantToWatchList}
           onGenerateRecommendations={generateRecommendations}
+          onCancelRecommendations={cancelRecommendations}
           onRateMovie={handleRateMovie}
           isLoading={isGeneratingRecommendations}
+          progress={progress}
           recommendations={recommendations}
           ratingLoadingStates={{}}
           wantToWatchLoadingStates={{}}
           onToggleWantToWatch={handleToggleWantToWatch}
+          onRecommendationFeedback={giveFeedback}
+          constraints={constraints}
+          onConstraintsChange={setConstraints}
+          runId={runId}
+          onRevisedRecommendation={addRevisedRecommendation}
+          quota={quota}
+          canGenerate={canGenerate}
           isLoadingLastRecommendations={isLoadingLastRecommendations}
         />
 
@@ -1,14 +1,18 @@
 import { UserInitialData } from "@/types/movie";
-import { MyMoviesPageClient } from "./MyMoviesPageClient";
+import { MyMoviesPageClient, type MyMoviesTab } from "./MyMoviesPageClient";
 
 // SERVER COMPONENT: Static my movies page content
 // This component handles all server-side rendering (SEO, static content)
 // No "use client" directive - runs on server
 interface MyMoviesPageProps {
   initialData?: UserInitialData;
+  initialTab?: MyMoviesTab;
 }
 
-export const MyMoviesPage = ({ initialData }: MyMoviesPageProps) => {
+export const MyMoviesPage = ({
+  initialData,
+  initialTab,
+}: MyMoviesPageProps) => {
   return (
     <>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -17,12 +21,17 @@ export const MyMoviesPage = ({ initialData }: MyMoviesPageProps) => {
             My Movies
           </h1>
           <p className="text-slate-600 dark:text-slate-400">
-            Manage your rated movies and wish list
+            Manage your rated movies, wish list and past recommendations
           </p>
         </div>
 
         {/* Client component handles all user interactions and state */}
-        <MyMoviesPageClient initialData={initialData} />
+        {/* Keyed by tab so links like "New picks for you" switch tabs in place */}
+        <MyMoviesPageClient
+          key={initialTab}
+          initialData={initialData}
+          initialTab={initialTab}
+        />
       </div>
     </>
   );
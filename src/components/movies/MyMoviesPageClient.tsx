@@ -13,19 +13,24 @@ import { useWantToWatchDb } from "@/hooks/user/useWantToWatchDb";
 import { WantToWatchMovie, UserInitialData } from "@/types/movie";
 import { TMDBMovie } from "@/lib/tmdb";
 import { useMovieActionsDb } from "@/hooks/user/useMovieActionsDb";
+import { RecommendationHistory } from "./RecommendationHistory";
 
 // CLIENT COMPONENT: User interactions for my movies page
 // This component handles all client-side interactions (tabs, rating, want-to-watch, modals)
 // "use client" directive - runs in browser only
+export type MyMoviesTab = "rated" | "wishlist" | "history";
+
 interface MyMoviesPageClientProps {
   initialData?: UserInitialData;
+  initialTab?: MyMoviesTab;
 }
 
 export const MyMoviesPageClient = ({
   initialData,
+  initialTab = "rated",
 }: MyMoviesPageClientProps) => {
   // Using initialData from SSR to avoid unnecessary API calls
-  const [activeTab, setActiveTab] = useState<"rated" | "wishlist">("rated");
+  const [activeTab, setActiveTab] = useState<MyMoviesTab>(initialTab);
 
   // Rating modal state
   const [ratingModal, setRatingModal] = useState<{
@@ -189,6 +194,16 @@ export const MyMoviesPageClient = ({
         >
           Want to Watch ({wantToWatchList.length})
         </button>
+        <button
+          onClick={() => setActiveTab("history")}
+          className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-all duration-200 ${
+            activeTab === "history"
+              ? "bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm"
+              : "text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+          }`}
+        >
+          Recommendation History
+        </button>
       </div>
 
       {/* Rated Movies Tab */}
@@ -333,6 +348,9 @@ export const MyMoviesPageClient = ({
         </>
       )}
 
+      {/* Recommendation History Tab */}
+      {activeTab === "history" && <RecommendationHistory />}
+
       <ConfirmDialog
         isOpen={confirmDialog.isOpen}
         onClose={closeConfirmDialog}
@@ -0,0 +1,149 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { MovieRecommendation, RefinementMode } from "@/types/movie";
+import { useRecommendationChat } from "@/hooks/user/useRecommendationChat";
+
+// CLIENT COMPONENT: "Refine these picks" chat under the recommendation cards
+// Each message revises the current batch; the new picks replace or are added
+// to the cards as they stream in
+
+const SUGGESTIONS = [
+  "Less horror, more like the second one",
+  "Something lighter",
+  "Add a few older classics",
+];
+
+interface RecommendationChatPanelProps {
+  runId: string;
+  onRevisedRecommendation: (
+    recommendation: MovieRecommendation,
+    mode: RefinementMode,
+    isFirst: boolean
+  ) => void;
+  disabled?: boolean;
+}
+
+const Bubble = ({
+  role,
+  children,
+}: {
+  role: "user" | "assistant";
+  children: React.ReactNode;
+}) => (
+  <div className={`flex ${role === "user" ? "justify-end" : "justify-start"}`}>
+    <div
+      className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+        role === "user"
+          ? "bg-purple-600 text-white"
+          : "bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200"
+      }`}
+    >
+      {children}
+    </div>
+  </div>
+);
+
+export const RecommendationChatPanel = ({
+  runId,
+  onRevisedRecommendation,
+  disabled = false,
+}: RecommendationChatPanelProps) => {
+  const [draft, setDraft] = useState("");
+  const {
+    messages,
+    pendingMessage,
+    pendingReply,
+    isSending,
+    error,
+    sendMessage,
+  } = useRecommendationChat(runId, onRevisedRecommendation);
+
+  const canSend = !disabled && !isSending;
+
+  const send = (message: string) => {
+    if (!canSend || !message.trim()) return;
+    setDraft("");
+    sendMessage(message.trim());
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    send(draft);
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+      <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">
+        Refine these picks
+      </h3>
+
+      {messages.length > 0 || pendingMessage ? (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {messages.map((message) => (
+            <Bubble key={message.id} role={message.role}>
+              {message.content}
+              {message.role === "assistant" && (
+                <span className="block mt-1 text-xs opacity-70">
+                  {message.recommendations.length === 0
+                    ? "No new picks found"
+                    : `${message.mode === "add" ? "Added" : "Replaced with"} ${
+                        message.recommendations.length
+                      } pick${message.recommendations.length === 1 ? "" : "s"}`}
+                </span>
+              )}
+            </Bubble>
+          ))}
+          {pendingMessage && <Bubble role="user">{pendingMessage}</Bubble>}
+          {pendingMessage && (
+            <Bubble role="assistant">
+              {pendingReply || "Thinking..."}
+              {pendingReply && (
+                <span className="block mt-1 text-xs opacity-70">
+                  Finding new picks...
+                </span>
+              )}
+            </Bubble>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => send(suggestion)}
+              disabled={!canSend}
+              className="px-3 py-1.5 rounded-full text-xs font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={500}
+          placeholder='e.g. "less horror, more like the second one"'
+          disabled={!canSend}
+          className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm placeholder-slate-400 dark:placeholder-slate-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={!canSend || !draft.trim()}
+          className="px-4 py-2 rounded-md text-sm font-medium bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:from-purple-700 hover:to-pink-700 transition-all duration-200 disabled:opacity-50"
+        >
+          {isSending ? "Refining..." : "Send"}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { RecommendationRun, RecommendationRunStatus } from "@/types/movie";
+import { useRecommendationRuns } from "@/hooks/user/useRecommendationRuns";
+import { ScoreBreakdownPanel } from "./ScoreBreakdownPanel";
+
+// CLIENT COMPONENT: Recommendation history for the My Movies page
+// One card per generation run with the batch it produced, newest first
+
+const STATUS_STYLES: Record<
+  RecommendationRunStatus,
+  { label: string; className: string }
+> = {
+  running: {
+    label: "In progress",
+    className:
+      "bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300",
+  },
+  completed: {
+    label: "Completed",
+    className:
+      "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300",
+  },
+  cancelled: {
+    label: "Cancelled",
+    className:
+      "bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300",
+  },
+  failed: {
+    label: "Failed",
+    className: "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300",
+  },
+};
+
+const formatLatency = (latencyMs: number | null) => {
+  if (latencyMs === null) return null;
+  return latencyMs >= 1000
+    ? `${(latencyMs / 1000).toFixed(1)}s`
+    : `${latencyMs}ms`;
+};
+
+const RunCard = ({ run }: { run: RecommendationRun }) => {
+  const status = STATUS_STYLES[run.status];
+  const latency = formatLatency(run.latencyMs);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h3 className="font-semibold text-slate-900 dark:text-white">
+          {new Date(run.createdAt).toLocaleString()}
+        </h3>
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}
+        >
+          {status.label}
+        </span>
+        {run.trigger === "weekly_digest" && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700 dark:bg-purple-900/20 dark:text-purple-300">
+            Weekly picks
+          </span>
+        )}
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {run.model} · prompt {run.promptVersion}
+          {latency && ` · ${latency}`} · based on {run.inputs.ratedCount}{" "}
+          ratings
+        </span>
+      </div>
+
+      {run.error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">
+          {run.error}
+        </p>
+      )}
+
+      {run.results.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          No recommendations in this run.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {run.results.map((rec) => (
+            <div key={rec.id} className="flex gap-4">
+              <Link href={`/movies/${rec.id}`} className="flex-shrink-0">
+                {rec.poster_path ? (
+                  <div className="relative w-12 h-18">
+                    <Image
+                      src={`https://image.tmdb.org/t/p/w92${rec.poster_path}`}
+                      alt={rec.title}
+                      fill
+                      className="object-cover rounded"
+                      sizes="48px"
+                    />
+                  </div>
+                ) : (
+                  <div className="w-12 h-18 bg-slate-200 dark:bg-slate-600 rounded" />
+                )}
+              </Link>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline gap-2 mb-1">
+                  <Link
+                    href={`/movies/${rec.id}`}
+                    className="font-medium text-slate-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+                  >
+                    {rec.title}
+                  </Link>
+                  {rec.release_date && (
+                    <span className="text-sm text-slate-500 dark:text-slate-400">
+                      {rec.release_date.slice(0, 4)}
+                    </span>
+                  )}
+                  {rec.matchScore !== undefined && (
+                    <span className="text-sm font-medium text-purple-600 dark:text-purple-400">
+                      {rec.matchScore}% match
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-300 mb-1">
+                  {rec.personalizedReason || rec.reason}
+                </p>
+                {rec.scoreBreakdown && (
+                  <ScoreBreakdownPanel breakdown={rec.scoreBreakdown} />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const RecommendationHistory = () => {
+  const { runs, isLoading, error, hasMoreRuns, isLoadingMore, loadMoreRuns } =
+    useRecommendationRuns();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-center py-12 text-slate-600 dark:text-slate-400">
+        There was an error loading your recommendation history.
+      </p>
+    );
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-6xl mb-4">🤖</div>
+        <h3 className="text-xl font-semibold text-slate-900 dark:text-white mb-2">
+          No Recommendations Yet
+        </h3>
+        <p className="text-slate-600 dark:text-slate-400 mb-6">
+          Every batch of AI recommendations you generate will be kept here.
+        </p>
+        <Link
+          href="/"
+          className="inline-flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg font-medium hover:from-purple-700 hover:to-pink-700 transition-all duration-200"
+        >
+          Get Recommendations
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {runs.map((run) => (
+        <RunCard key={run.id} run={run} />
+      ))}
+
+      {hasMoreRuns && (
+        <div className="text-center">
+          <button
+            onClick={loadMoreRuns}
+            disabled={isLoadingMore}
+            className="px-6 py-3 rounded-lg font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-all duration-200 disabled:opacity-50"
+          >
+            {isLoadingMore ? "Loading..." : "Show older recommendations"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
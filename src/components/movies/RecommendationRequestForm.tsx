@@ -0,0 +1,275 @@
+"use client";
+
+import { useState } from "react";
+import {
+  RecommendationAudience,
+  RecommendationConstraints,
+  RecommendationMood,
+} from "@/types/movie";
+
+// CLIENT COMPONENT: Optional constraints for the next recommendation batch
+// Collapsed by default; the generate button uses whatever is set here
+
+const MOODS: Array<{ value: RecommendationMood; label: string }> = [
+  { value: "feel_good", label: "Feel-good" },
+  { value: "funny", label: "Funny" },
+  { value: "thrilling", label: "Thrilling" },
+  { value: "dark", label: "Dark" },
+  { value: "thought_provoking", label: "Thought-provoking" },
+  { value: "romantic", label: "Romantic" },
+  { value: "scary", label: "Scary" },
+  { value: "epic", label: "Epic" },
+];
+
+const RUNTIMES = [90, 120, 150];
+
+const DECADES = Array.from({ length: 11 }, (_, i) => 1920 + i * 10);
+
+const LANGUAGES = [
+  { value: "en", label: "English" },
+  { value: "fr", label: "French" },
+  { value: "es", label: "Spanish" },
+  { value: "de", label: "German" },
+  { value: "it", label: "Italian" },
+  { value: "ja", label: "Japanese" },
+  { value: "ko", label: "Korean" },
+  { value: "zh", label: "Chinese" },
+  { value: "hi", label: "Hindi" },
+  { value: "sv", label: "Swedish" },
+];
+
+const AUDIENCES: Array<{ value: RecommendationAudience; label: string }> = [
+  { value: "solo", label: "Just me" },
+  { value: "partner", label: "Partner" },
+  { value: "friends", label: "Friends" },
+  { value: "kids", label: "Kids" },
+];
+
+interface RecommendationRequestFormProps {
+  constraints: RecommendationConstraints;
+  onChange: (constraints: RecommendationConstraints) => void;
+  disabled?: boolean;
+}
+
+const selectClassName =
+  "w-full rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm px-3 py-2 disabled:opacity-50";
+
+export const RecommendationRequestForm = ({
+  constraints,
+  onChange,
+  disabled = false,
+}: RecommendationRequestFormProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const activeCount = Object.entries(constraints).filter(
+    ([key, value]) =>
+      value !== undefined &&
+      value !== false &&
+      !(key === "audience" && value === "solo")
+  ).length;
+
+  // Empty select values clear the constraint
+  const update = <K extends keyof RecommendationConstraints>(
+    key: K,
+    value: RecommendationConstraints[K] | ""
+  ) => onChange({ ...constraints, [key]: value === "" ? undefined : value });
+
+  const toNumber = (value: string) => (value ? Number(value) : "");
+
+  return (
+    <div className="rounded-lg border border-slate-200 dark:border-slate-700">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-slate-700 dark:text-slate-200"
+      >
+        <span>
+          Customize your picks
+          {activeCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+              {activeCount} active
+            </span>
+          )}
+        </span>
+        <svg
+          className={`w-4 h-4 transition-transform duration-200 ${
+            isOpen ? "rotate-180" : ""
+          }`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <label className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <span>Mood</span>
+            <select
+              value={constraints.mood || ""}
+              onChange={(e) =>
+                update("mood", e.target.value as RecommendationMood | "")
+              }
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="">Any mood</option>
+              {MOODS.map((mood) => (
+                <option key={mood.value} value={mood.value}>
+                  {mood.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <span>Max runtime</span>
+            <select
+              value={constraints.maxRuntime || ""}
+              onChange={(e) => update("maxRuntime", toNumber(e.target.value))}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="">Any length</option>
+              {RUNTIMES.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  Up to {minutes} min
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <span>Watching with</span>
+            <select
+              value={constraints.audience || "solo"}
+              onChange={(e) =>
+                update("audience", e.target.value as RecommendationAudience)
+              }
+              disabled={disabled}
+              className={selectClassName}
+            >
+              {AUDIENCES.map((audience) => (
+                <option key={audience.value} value={audience.value}>
+                  {audience.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <span>Decades</span>
+            <div className="flex items-center gap-2">
+              <select
+                aria-label="From decade"
+                value={constraints.decadeFrom || ""}
+                onChange={(e) => update("decadeFrom", toNumber(e.target.value))}
+                disabled={disabled}
+                className={selectClassName}
+              >
+                <option value="">Any</option>
+                {DECADES.filter(
+                  (decade) =>
+                    !constraints.decadeTo || decade <= constraints.decadeTo
+                ).map((decade) => (
+                  <option key={decade} value={decade}>
+                    {decade}s
+                  </option>
+                ))}
+              </select>
+              <span>to</span>
+              <select
+                aria-label="To decade"
+                value={constraints.decadeTo || ""}
+                onChange={(e) => update("decadeTo", toNumber(e.target.value))}
+                disabled={disabled}
+                className={selectClassName}
+              >
+                <option value="">Any</option>
+                {DECADES.filter(
+                  (decade) =>
+                    !constraints.decadeFrom || decade >= constraints.decadeFrom
+                ).map((decade) => (
+                  <option key={decade} value={decade}>
+                    {decade}s
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <span>Original language</span>
+            <select
+              value={constraints.language || ""}
+              onChange={(e) => update("language", e.target.value)}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="">Any language</option>
+              {LANGUAGES.map((language) => (
+                <option key={language.value} value={language.value}>
+                  {language.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {/* Not a filter: mixes lesser-known hidden gems into the picks */}
+          <label className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <span>Adventurousness</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={10}
+              value={constraints.adventurousness || 0}
+              onChange={(e) =>
+                update("adventurousness", Number(e.target.value) || undefined)
+              }
+              disabled={disabled}
+              className="w-full accent-purple-600 disabled:opacity-50"
+            />
+            <span className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+              <span>Crowd-pleasers</span>
+              <span>Hidden gems</span>
+            </span>
+          </label>
+
+          <div className="flex items-end justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 py-2">
+              <input
+                type="checkbox"
+                checked={!!constraints.streamingOnly}
+                onChange={(e) =>
+                  update("streamingOnly", e.target.checked || undefined)
+                }
+                disabled={disabled}
+                className="rounded border-slate-300 dark:border-slate-600"
+              />
+              Streaming only
+            </label>
+            {activeCount > 0 && (
+              <button
+                type="button"
+                onClick={() => onChange({})}
+                disabled={disabled}
+                className="text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 py-2 disabled:opacity-50"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
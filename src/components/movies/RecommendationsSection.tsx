@@ -1,4 +1,13 @@
-import { RatedMovie, MovieRecommendation } from "@/types/movie";
+import {
+  RatedMovie,
+  MovieRecommendation,
+  RecommendationConstraints,
+  RecommendationFeedback,
+  RecommendationProgress,
+  RecommendationQuota,
+  RefinementMode,
+} from "@/types/movie";
+import { ONBOARDING_CONFIG } from "@/lib/constants";
 import { RecommendationsSectionClient } from "./RecommendationsSectionClient";
 
 // SERVER COMPONENT: Static recommendations section content
@@ -10,8 +19,11 @@ interface RecommendationsSectionProps {
   wantToWatchCount?: number;
   wantToWatchList?: { id: number }[];
   onGenerateRecommendations: () => void;
+  onCancelRecommendations?: () => void;
   onRateMovie: (movieId: number, rating: number) => void;
   isLoading?: boolean;
+  // Stage of the generation in progress
+  progress?: RecommendationProgress | null;
   isLoadingLastRecommendations?: boolean;
   recommendations?: MovieRecommendation[];
   ratingLoadingStates?: Record<number, boolean>;
@@ -20,21 +32,59 @@ interface RecommendationsSectionProps {
     movie: MovieRecommendation,
     isInWantToWatch: boolean
   ) => void;
+  onRecommendationFeedback?: (
+    movieId: number,
+    feedback: RecommendationFeedback
+  ) => void;
+  constraints?: RecommendationConstraints;
+  onConstraintsChange?: (constraints: RecommendationConstraints) => void;
+  runId?: string | null;
+  onRevisedRecommendation?: (
+    recommendation: MovieRecommendation,
+    mode: RefinementMode,
+    isFirst: boolean
+  ) => void;
+  quota?: RecommendationQuota | null;
+  // False while the quota says to wait
+  canGenerate?: boolean;
 }
 
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+// "3 of 20 generations left today", or when the next one is allowed
+const describeQuota = (quota: RecommendationQuota) => {
+  if (quota.remaining === 0 && quota.availableAt) {
+    return `Daily limit reached · more at ${formatTime(quota.availableAt)}`;
+  }
+  const left = `${quota.remaining} of ${quota.limit} generations left today`;
+  return quota.availableAt
+    ? `${left} · next at ${formatTime(quota.availableAt)}`
+    : left;
+};
+
 export const RecommendationsSection = ({
   ratedMoviesCount,
   ratedMovies,
   wantToWatchCount = 0,
   wantToWatchList = [],
   onGenerateRecommendations,
+  onCancelRecommendations,
   onRateMovie,
   isLoading = false,
+  progress,
   isLoadingLastRecommendations = false,
   recommendations = [],
   ratingLoadingStates = {},
   wantToWatchLoadingStates = {},
   onToggleWantToWatch,
+  onRecommendationFeedback,
+  constraints,
+  onConstraintsChange,
+  runId,
+  onRevisedRecommendation,
+  quota,
+  canGenerate = true,
 }: RecommendationsSectionProps) => {
   const hasRecommendations = recommendations.length > 0;
 
@@ -64,33 +114,55 @@ export const RecommendationsSection = ({
             </p>
           </div>
 
-          <button
-            onClick={onGenerateRecommendations}
-            disabled={isLoading || ratedMoviesCount === 0}
-            className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-6 py-3 rounded-lg font-medium hover:from-purple-700 hover:to-pink-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-          >
-            {isLoading && (
-              <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
-                <circle
-                  className="opacity-25"
-                  cx="12"
-                  cy="12"
-                  r="10"
-                  stroke="currentColor"
-                  strokeWidth="4"
-                  fill="none"
-                />
-                <path
-                  className="opacity-75"
-                  fill="currentColor"
-                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                />
-              </svg>
+          <div className="flex flex-col items-end gap-2">
+            <div className="flex items-center gap-3">
+              {isLoading && onCancelRecommendations && (
+                <button
+                  onClick={onCancelRecommendations}
+                  className="px-4 py-3 rounded-lg font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              )}
+
+              <button
+                onClick={onGenerateRecommendations}
+                disabled={
+                  isLoading ||
+                  ratedMoviesCount < ONBOARDING_CONFIG.MIN_PROFILE_RATINGS ||
+                  !canGenerate
+                }
+                className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-6 py-3 rounded-lg font-medium hover:from-purple-700 hover:to-pink-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {isLoading && (
+                  <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                      fill="none"
+                    />
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    />
+                  </svg>
+                )}
+                {hasRecommendations
+                  ? "Generate New Recommendations"
+                  : "Generate Recommendations"}
+              </button>
+            </div>
+            {quota && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {describeQuota(quota)}
+              </p>
             )}
-            {hasRecommendations
-              ? "Generate New Recommendations"
-              : "Generate Recommendations"}
-          </button>
+          </div>
         </div>
 
         {/* Client component handles all interactive content and state */}
@@ -100,11 +172,17 @@ export const RecommendationsSection = ({
           wantToWatchList={wantToWatchList}
           onRateMovie={onRateMovie}
           isLoading={isLoading}
+          progress={progress}
           isLoadingLastRecommendations={isLoadingLastRecommendations}
           recommendations={recommendations}
           ratingLoadingStates={ratingLoadingStates}
           wantToWatchLoadingStates={wantToWatchLoadingStates}
           onToggleWantToWatch={onToggleWantToWatch}
+          onRecommendationFeedback={onRecommendationFeedback}
+          constraints={constraints}
+          onConstraintsChange={onConstraintsChange}
+          runId={runId}
+          onRevisedRecommendation={onRevisedRecommendation}
         />
       </div>
     </div>
@@ -2,33 +2,35 @@
 
 import { useState, useEffect } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { RatedMovie, MovieRecommendation } from "@/types/movie";
+import {
+  RatedMovie,
+  MovieRecommendation,
+  RecommendationConstraints,
+  RecommendationFeedback,
+  RecommendationProgress,
+  RefinementMode,
+} from "@/types/movie";
 import { RatingModal } from "./RatingModal";
+import { RecommendationChatPanel } from "./RecommendationChatPanel";
+import { RecommendationRequestForm } from "./RecommendationRequestForm";
+import { ScoreBreakdownPanel } from "./ScoreBreakdownPanel";
 import { LoadingAnimation } from "@/components/common";
+import { ONBOARDING_CONFIG, RECOMMENDATION_STAGES } from "@/lib/constants";
 
 // CLIENT COMPONENT: User interactions for recommendations section
 // This component handles all client-side interactions (rating, want-to-watch, modals)
 // "use client" directive - runs in browser only
 
-// AI RECOMMENDATION LOADING STEPS: Custom steps for AI recommendation generation
-// More steps to cover the full 30-second duration and prevent cycling too fast
-const AI_RECOMMENDATION_STEPS = [
-  "Analyzing your movie ratings...",
-  "Understanding your taste preferences...",
-  "Exploring your watchlist patterns...",
-  "Finding similar movies you might love...",
-  "Searching through thousands of films...",
-  "Identifying hidden gems for you...",
-  "Generating personalized recommendations...",
-  "Adding detailed explanations...",
-  "Calculating match scores...",
-  "Gathering movie details...",
-  "Finalizing your recommendations...",
-  "Almost ready with your matches...",
-  "Preparing your personalized list...",
-  "Just a few more seconds...",
-];
+// AI RECOMMENDATION PROGRESS: The loading screen shows the stage the stream
+// reports; the bar moves through the stages in order
+const STARTING_MESSAGE = "Starting your recommendations...";
+
+const getStageProgress = (progress?: RecommendationProgress | null) => {
+  const index = progress ? RECOMMENDATION_STAGES.indexOf(progress.stage) : 0;
+  return (Math.max(index, 0) / (RECOMMENDATION_STAGES.length - 1)) * 100;
+};
 
 interface RecommendationsSectionClientProps {
   ratedMoviesCount: number;
@@ -36,6 +38,7 @@ interface RecommendationsSectionClientProps {
   wantToWatchList?: { id: number }[];
   onRateMovie: (movieId: number, rating: number) => void;
   isLoading?: boolean;
+  progress?: RecommendationProgress | null;
   isLoadingLastRecommendations?: boolean;
   recommendations?: MovieRecommendation[];
   ratingLoadingStates?: Record<number, boolean>;
@@ -44,6 +47,18 @@ interface RecommendationsSectionClientProps {
     movie: MovieRecommendation,
     isInWantToWatch: boolean
   ) => void;
+  onRecommendationFeedback?: (
+    movieId: number,
+    feedback: RecommendationFeedback
+  ) => void;
+  constraints?: RecommendationConstraints;
+  onConstraintsChange?: (constraints: RecommendationConstraints) => void;
+  runId?: string | null;
+  onRevisedRecommendation?: (
+    recommendation: MovieRecommendation,
+    mode: RefinementMode,
+    isFirst: boolean
+  ) => void;
 }
 
 export const RecommendationsSectionClient = ({
@@ -52,11 +67,17 @@ export const RecommendationsSectionClient = ({
   wantToWatchList = [],
   onRateMovie,
   isLoading = false,
+  progress,
   isLoadingLastRecommendations = false,
   recommendations = [],
   ratingLoadingStates = {},
   wantToWatchLoadingStates = {},
   onToggleWantToWatch,
+  onRecommendationFeedback,
+  constraints = {},
+  onConstraintsChange,
+  runId,
+  onRevisedRecommendation,
 }: RecommendationsSectionClientProps) => {
   const router = useRouter();
   const [ratingModal, setRatingModal] = useState<{
@@ -68,6 +89,8 @@ export const RecommendationsSectionClient = ({
   });
 
   const hasRecommendations = recommendations.length > 0;
+  const isProfileReady =
+    ratedMoviesCount >= ONBOARDING_CONFIG.MIN_PROFILE_RATINGS;
 
   // Log component state for debugging
   useEffect(() => {
@@ -114,6 +137,15 @@ export const RecommendationsSectionClient = ({
     if (onToggleWantToWatch) {
       onToggleWantToWatch(movie, isInWantToWatch);
     }
+    if (!isInWantToWatch) {
+      onRecommendationFeedback?.(movie.id, "added_to_watchlist");
+    }
+  };
+
+  // "Seen it" hides the card and offers a quick rating for the movie
+  const handleSeenIt = (movie: MovieRecommendation) => {
+    onRecommendationFeedback?.(movie.id, "seen");
+    handleOpenRatingModal(movie);
   };
 
   const handleMovieClick = (movie: MovieRecommendation) => {
@@ -175,13 +207,27 @@ export const RecommendationsSectionClient = ({
 
   return (
     <>
+      {/* Optional constraints for the next "Generate" */}
+      {onConstraintsChange && isProfileReady && (
+        <RecommendationRequestForm
+          constraints={constraints}
+          onChange={onConstraintsChange}
+          disabled={isLoading}
+        />
+      )}
+
       {isLoading && (
         <LoadingAnimation
-          steps={AI_RECOMMENDATION_STEPS}
+          steps={[progress?.message || STARTING_MESSAGE]}
+          progress={getStageProgress(progress)}
           variant="purple"
-          timeEstimate="This usually takes 15-25 seconds"
-          estimatedDuration={30000} // 30 seconds in milliseconds
-          preventReset={true} // Prevent progress bar from resetting
+          timeEstimate={
+            hasRecommendations
+              ? `${recommendations.length} recommendation${
+                  recommendations.length === 1 ? "" : "s"
+                } ready - more on the way`
+              : "Your first pick usually arrives within 10 seconds"
+          }
           showIcon={false} // Hide icon for AI recommendations
         />
       )}
@@ -222,7 +268,7 @@ export const RecommendationsSectionClient = ({
       {!isLoading &&
         !isLoadingLastRecommendations &&
         !hasRecommendations &&
-        ratedMoviesCount === 0 && (
+        !isProfileReady && (
           <div className="bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 rounded-lg p-8 border border-amber-200 dark:border-amber-700 text-center">
             <div className="text-amber-500 mb-4">
               <svg
@@ -237,9 +283,17 @@ export const RecommendationsSectionClient = ({
               Rate Some Movies First
             </h3>
             <p className="text-amber-700 dark:text-amber-300 mb-4">
-              To get personalized AI recommendations, you need to rate at least
-              3 movies first. Scroll down to rate some movies you've watched.
+              To get personalized AI recommendations, you need to rate at least{" "}
+              {ONBOARDING_CONFIG.MIN_PROFILE_RATINGS} movies first (
+              {ratedMoviesCount} so far). Pick a few favorite genres and rate
+              some well-known films to get started.
             </p>
+            <Link
+              href="/onboarding"
+              className="inline-block mb-4 px-5 py-2 rounded-lg text-sm font-medium text-white bg-amber-600 hover:bg-amber-700 transition-colors duration-200"
+            >
+              Build your taste profile
+            </Link>
             <div className="flex items-center justify-center space-x-2 text-sm text-amber-600 dark:text-amber-400">
               <span>⭐</span>
               <span>Rate movies you've watched</span>
@@ -256,7 +310,7 @@ export const RecommendationsSectionClient = ({
       {!isLoading &&
         !isLoadingLastRecommendations &&
         !hasRecommendations &&
-        ratedMoviesCount > 0 && (
+        isProfileReady && (
           <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg p-8 border border-blue-200 dark:border-blue-700 text-center">
             <div className="text-blue-500 mb-4">
               <svg
@@ -286,15 +340,15 @@ export const RecommendationsSectionClient = ({
               <span>Find movies you'll love</span>
               <span>•</span>
               <span>⚡</span>
-              <span>Takes about 10-15 seconds</span>
+              <span>First pick within about 10 seconds</span>
             </div>
           </div>
         )}
 
-      {!isLoading && !isLoadingLastRecommendations && hasRecommendations && (
+      {!isLoadingLastRecommendations && hasRecommendations && (
         <div>
           <div className="space-y-6">
-            {recommendations.map((rec, index) => {
+            {recommendations.map((rec) => {
               const userRating = ratedMovies.find(
                 (rm) => rm.id === rec.id
               )?.rating;
@@ -314,7 +368,7 @@ export const RecommendationsSectionClient = ({
 
               return (
                 <div
-                  key={index}
+                  key={rec.id}
                   className="bg-slate-50 dark:bg-slate-700 rounded-lg p-6 hover:shadow-md transition-shadow duration-200"
                 >
                   <div className="flex gap-6">
@@ -449,37 +503,52 @@ export const RecommendationsSectionClient = ({
                         </div>
                       </div>
 
-                      {/* Match Score */}
-                      {rec.matchScore && rec.matchLevel && (
-                        <div
-                          className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium mb-3 ${matchDisplay.bgColor} ${matchDisplay.color}`}
-                        >
-                          <span className="text-lg">{matchDisplay.emoji}</span>
-                          <span>
-                            We think you'll{" "}
-                            {rec.matchLevel.toLowerCase().replace(" ", " ")} it
-                          </span>
-                          <span className="font-bold">
-                            ({rec.matchScore}% match)
+                      {/* Match Score and pick type */}
+                      <div className="flex flex-wrap items-center gap-2 mb-3">
+                        {rec.matchScore && rec.matchLevel && (
+                          <div
+                            className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium ${matchDisplay.bgColor} ${matchDisplay.color}`}
+                          >
+                            <span className="text-lg">
+                              {matchDisplay.emoji}
+                            </span>
+                            <span>
+                              We think you'll{" "}
+                              {rec.matchLevel.toLowerCase().replace(" ", " ")}{" "}
+                              it
+                            </span>
+                            <span className="font-bold">
+                              ({rec.matchScore}% match)
+                            </span>
+                          </div>
+                        )}
+                        {rec.pickType && (
+                          <span
+                            className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${
+                              rec.pickType === "safe_bet"
+                                ? "bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300"
+                                : "bg-purple-50 text-purple-700 dark:bg-purple-900/20 dark:text-purple-300"
+                            }`}
+                            title={
+                              rec.pickType === "safe_bet"
+                                ? "A strong match for your taste"
+                                : "A less obvious pick, to keep things interesting"
+                            }
+                          >
+                            {rec.pickType === "safe_bet"
+                              ? "Safe bet"
+                              : "Wildcard"}
                           </span>
-                        </div>
+                        )}
+                      </div>
+
+                      {/* Factors behind the match score */}
+                      {rec.scoreBreakdown && (
+                        <ScoreBreakdownPanel breakdown={rec.scoreBreakdown} />
                       )}
 
                       {/* Recommendation Reasons */}
                       <div className="space-y-3">
-                        {/* Enhanced Reason (Social Proof) */}
-                        {rec.enhancedReason && (
-                          <div className="text-sm text-slate-600 dark:text-slate-300 leading-relaxed">
-                            {rec.enhancedReason
-                              .split("\n")
-                              .map((line: string, i: number) => (
-                                <p key={i} className="mb-1">
-                                  {line.replace(/\*\*(.*?)\*\*/g, "$1")}
-                                </p>
-                              ))}
-                          </div>
-                        )}
-
                         {/* Personalized Reason (AI-generated detailed explanation) */}
                         {rec.personalizedReason && (
                           <div className="text-sm text-slate-700 dark:text-slate-200 leading-relaxed">
@@ -487,13 +556,40 @@ export const RecommendationsSectionClient = ({
                           </div>
                         )}
 
-                        {/* Fallback to basic reason if neither enhanced nor personalized exists */}
-                        {!rec.enhancedReason && !rec.personalizedReason && (
+                        {/* Fallback to basic reason if no personalized reason exists */}
+                        {!rec.personalizedReason && (
                           <p className="text-sm text-slate-600 dark:text-slate-300 leading-relaxed">
                             {rec.reason}
                           </p>
                         )}
                       </div>
+
+                      {/* Feedback: both hide the card and steer future picks */}
+                      {onRecommendationFeedback && (
+                        <div className="flex gap-2 mt-4">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onRecommendationFeedback(
+                                rec.id,
+                                "not_interested"
+                              );
+                            }}
+                            className="px-3 py-1.5 rounded-full text-xs font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors duration-200"
+                          >
+                            Not interested
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleSeenIt(rec);
+                            }}
+                            className="px-3 py-1.5 rounded-full text-xs font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors duration-200"
+                          >
+                            Seen it
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -503,6 +599,18 @@ export const RecommendationsSectionClient = ({
         </div>
       )}
 
+      {/* Refine chat for the batch on screen */}
+      {runId &&
+        onRevisedRecommendation &&
+        !isLoadingLastRecommendations &&
+        hasRecommendations && (
+          <RecommendationChatPanel
+            runId={runId}
+            onRevisedRecommendation={onRevisedRecommendation}
+            disabled={isLoading}
+          />
+        )}
+
       {/* Rating Modal */}
       {ratingModal.movie && (
         <RatingModal
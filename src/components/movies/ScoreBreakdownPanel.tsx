@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { ScoreFactor } from "@/types/movie";
+
+// Expandable "Why this score?" panel for a recommendation card
+// Lists the factors behind the match score, strongest first
+
+interface ScoreBreakdownPanelProps {
+  breakdown: ScoreFactor[];
+}
+
+export const ScoreBreakdownPanel = ({
+  breakdown,
+}: ScoreBreakdownPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (breakdown.length === 0) return null;
+
+  const factors = [...breakdown].sort(
+    (a, b) => Math.abs(b.points) - Math.abs(a.points)
+  );
+
+  return (
+    <div className="mb-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1 text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors duration-200"
+      >
+        <svg
+          className={`w-3 h-3 transition-transform duration-200 ${
+            isOpen ? "rotate-90" : ""
+          }`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5l7 7-7 7"
+          />
+        </svg>
+        Why this score?
+      </button>
+
+      {isOpen && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {factors.map((factor) => (
+            <li
+              key={`${factor.factor}-${factor.label}`}
+              className="flex items-start justify-between gap-4"
+            >
+              <span className="text-slate-600 dark:text-slate-300">
+                {factor.label}
+              </span>
+              {/* Explanations carried over from before score breakdowns
+                  existed have no points */}
+              {factor.points !== 0 && (
+                <span
+                  className={`font-semibold flex-shrink-0 ${
+                    factor.points > 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-red-600 dark:text-red-400"
+                  }`}
+                >
+                  {factor.points > 0 ? "+" : "−"}
+                  {Math.abs(factor.points)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useOnboarding } from "@/hooks/user/useOnboarding";
+import { useRatedMoviesDb } from "@/hooks/user/useRatedMoviesDb";
+import { useMovieActionsDb } from "@/hooks/user/useMovieActionsDb";
+import { LoadingSkeleton } from "@/components/common";
+import { ONBOARDING_CONFIG } from "@/lib/constants";
+import { OnboardingMovie } from "@/types/movie";
+import { RateGrid } from "./RateGrid";
+
+// CLIENT COMPONENT: Two-step onboarding for new accounts
+// Step 1 picks favorite genres, step 2 rates a grid of well-known films.
+// Recommendations unlock once MIN_PROFILE_RATINGS movies are rated
+
+type OnboardingStep = "genres" | "rate";
+
+export const OnboardingWizard = () => {
+  const router = useRouter();
+  const {
+    status,
+    genres,
+    movies,
+    isLoading,
+    error,
+    saveGenres,
+    isSavingGenres,
+  } = useOnboarding();
+  const { ratedMovies } = useRatedMoviesDb();
+  const { rateMovie } = useMovieActionsDb();
+
+  const [step, setStep] = useState<OnboardingStep>("genres");
+  // null until the user changes the saved selection
+  const [selected, setSelected] = useState<number[] | null>(null);
+
+  const selectedGenres = selected ?? status?.favoriteGenres ?? [];
+  const minRatings = ONBOARDING_CONFIG.MIN_PROFILE_RATINGS;
+  const isProfileReady = ratedMovies.length >= minRatings;
+  const genreNames = Object.fromEntries(
+    genres.map((genre) => [genre.id, genre.name])
+  );
+  const ratings = Object.fromEntries(
+    ratedMovies.map((movie) => [movie.id, movie.rating])
+  );
+
+  const toggleGenre = (genreId: number) =>
+    setSelected(
+      selectedGenres.includes(genreId)
+        ? selectedGenres.filter((id) => id !== genreId)
+        : [...selectedGenres, genreId]
+    );
+
+  const handleSaveGenres = async () => {
+    try {
+      if (selected) await saveGenres(selected);
+      setStep("rate");
+    } catch (error) {
+      console.error("Error saving favorite genres:", error);
+    }
+  };
+
+  const handleRate = async (movie: OnboardingMovie, rating: number) => {
+    try {
+      await rateMovie(
+        {
+          ...movie,
+          overview: movie.overview || "",
+          backdrop_path: null,
+          popularity: 0,
+          adult: false,
+          original_language: "en",
+          original_title: movie.title,
+          video: false,
+        },
+        rating
+      );
+    } catch (error) {
+      console.error("Error rating movie:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        <LoadingSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12 space-y-8">
+      <div className="text-center space-y-2">
+        <p className="text-sm font-medium text-purple-600 dark:text-purple-400">
+          Step {step === "genres" ? 1 : 2} of 2
+        </p>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">
+          {step === "genres"
+            ? "What do you like to watch?"
+            : "Rate a few movies you've seen"}
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400">
+          {step === "genres"
+            ? "Pick your favorite genres. You can change them later."
+            : `Rate at least ${minRatings} to unlock recommendations. Skip the ones you haven't seen.`}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {step === "genres" ? (
+        <>
+          <div className="flex flex-wrap justify-center gap-2">
+            {genres.map((genre) => (
+              <button
+                key={genre.id}
+                type="button"
+                onClick={() => toggleGenre(genre.id)}
+                aria-pressed={selectedGenres.includes(genre.id)}
+                className={`px-4 py-2 rounded-full text-sm font-medium border transition-colors duration-200 ${
+                  selectedGenres.includes(genre.id)
+                    ? "bg-purple-600 border-purple-600 text-white"
+                    : "border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+                }`}
+              >
+                {genre.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-center gap-3">
+            <button
+              type="button"
+              onClick={() => setStep("rate")}
+              className="px-6 py-3 rounded-lg font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              Skip
+            </button>
+            <button
+              type="button"
+              onClick={handleSaveGenres}
+              disabled={isSavingGenres || selectedGenres.length === 0}
+              className="px-6 py-3 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSavingGenres ? "Saving..." : "Next"}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="sticky top-0 z-10 bg-white/90 dark:bg-slate-900/90 backdrop-blur py-3 flex items-center justify-between gap-4">
+            <div className="flex-1">
+              <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all duration-300"
+                  style={{
+                    width: `${Math.min(ratedMovies.length / minRatings, 1) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                {Math.min(ratedMovies.length, minRatings)} of {minRatings} rated
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setStep("genres")}
+              className="text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={() => router.push("/")}
+              disabled={!isProfileReady}
+              className="px-6 py-3 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Get recommendations
+            </button>
+          </div>
+
+          <RateGrid
+            movies={movies}
+            ratings={ratings}
+            genreNames={genreNames}
+            onRate={handleRate}
+          />
+
+          <p className="text-center text-sm text-slate-500 dark:text-slate-400">
+            Haven&apos;t seen enough of these?{" "}
+            <Link
+              href="/"
+              className="font-medium text-purple-600 hover:text-purple-500 dark:text-purple-400"
+            >
+              Search and rate any movie instead
+            </Link>
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
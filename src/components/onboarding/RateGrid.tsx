@@ -0,0 +1,91 @@
+"use client";
+
+import Image from "next/image";
+import { OnboardingMovie } from "@/types/movie";
+
+// CLIENT COMPONENT: Quick rate-a-grid of well-known films
+// One tap per film on a four-point scale, stored as a regular 1-10 rating;
+// films the user hasn't seen are simply skipped
+
+const QUICK_RATINGS = [
+  { rating: 9, label: "Loved it" },
+  { rating: 7, label: "Liked it" },
+  { rating: 5, label: "Meh" },
+  { rating: 3, label: "Disliked" },
+];
+
+interface RateGridProps {
+  movies: OnboardingMovie[];
+  // Current ratings by movie id
+  ratings: Record<number, number>;
+  genreNames: Record<number, string>;
+  onRate: (movie: OnboardingMovie, rating: number) => void;
+}
+
+export const RateGrid = ({
+  movies,
+  ratings,
+  genreNames,
+  onRate,
+}: RateGridProps) => (
+  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+    {movies.map((movie) => {
+      const current = ratings[movie.id];
+
+      return (
+        <div
+          key={movie.id}
+          className={`rounded-lg overflow-hidden border bg-white dark:bg-slate-800 ${
+            current
+              ? "border-purple-400 dark:border-purple-500"
+              : "border-slate-200 dark:border-slate-700"
+          }`}
+        >
+          <div className="relative aspect-[2/3]">
+            {movie.poster_path && (
+              <Image
+                src={`https://image.tmdb.org/t/p/w300${movie.poster_path}`}
+                alt={movie.title}
+                fill
+                sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
+                className="object-cover"
+              />
+            )}
+          </div>
+          <div className="p-3 space-y-2">
+            <div>
+              <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                {movie.title}
+              </p>
+              <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                {movie.release_date?.slice(0, 4)}
+                {movie.genre_ids.length > 0 &&
+                  ` · ${movie.genre_ids
+                    .map((id) => genreNames[id])
+                    .filter(Boolean)
+                    .slice(0, 2)
+                    .join(", ")}`}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {QUICK_RATINGS.map(({ rating, label }) => (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => onRate(movie, rating)}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors duration-200 ${
+                    current === rating
+                      ? "bg-purple-600 text-white"
+                      : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
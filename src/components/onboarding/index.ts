@@ -0,0 +1 @@
+export { OnboardingWizard } from "./OnboardingWizard";
@@ -1,5 +1,7 @@
 import {
+  index,
   integer,
+  doublePrecision,
   text,
   boolean,
   pgTable,
@@ -7,8 +9,30 @@ import {
   uuid,
   jsonb,
   numeric,
+  real,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
+import type {
+  CatalogSyncStatus,
+  LLMCallOutcome,
+  LLMCallPurpose,
+  MatchLevel,
+  MovieRecommendation,
+  PickType,
+  RecommendationConstraints,
+  RecommendationFeedback,
+  RecommendationJobRequest,
+  RecommendationJobStatus,
+  RecommendationRunInputs,
+  RecommendationRunStatus,
+  RecommendationRunTrigger,
+  RecommendationStage,
+  RecommendationUsageKind,
+  RefinementMode,
+  ScoreFactor,
+  UserTier,
+} from "@/types/movie";
+import type { TMDBMovie } from "@/lib/tmdb";
 
 // Store user information and preferences
 // This replaces localStorage user data with persistent database storage
@@ -19,6 +43,7 @@ export const users = pgTable("users", {
   name: text("name"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  tier: text("tier").$type<UserTier>().notNull().default("free"),
   preferences: jsonb("preferences").$type<{
     favoriteGenres?: number[];
     preferredLanguage?: string;
@@ -60,6 +85,9 @@ export const movies = pgTable("movies", {
       origin_country?: string;
     }>
   >(),
+  // Full TMDB detail payload (credits, videos, release dates), written by the
+  // details cache in lib/movie-cache. Null for rows created as placeholders
+  details: jsonb("details").$type<TMDBMovie>(),
   lastUpdated: timestamp("last_updated").defaultNow().notNull(),
 });
 
@@ -112,18 +140,174 @@ export const recommendations = pgTable("recommendations", {
     .references(() => movies.id, { onDelete: "cascade" }),
   reason: text("reason").notNull(),
   matchScore: integer("match_score"),
-  matchLevel: text("match_level").$type<
-    "LOVE IT" | "LIKE IT" | "MAYBE" | "RISKY"
-  >(),
+  matchLevel: text("match_level").$type<MatchLevel>(),
+  // Factors behind matchScore, shown in the "Why this score?" panel
+  scoreBreakdown: jsonb("score_breakdown").$type<ScoreFactor[]>(),
+  // 0-1 confidence that the TMDB movie is the title the model suggested
+  resolutionConfidence: real("resolution_confidence"),
+  pickType: text("pick_type").$type<PickType>(),
   personalizedReason: text("personalized_reason"),
-  enhancedReason: text("enhanced_reason"),
   generatedAt: timestamp("generated_at").defaultNow().notNull(),
+  // seen: the user has already watched it; actedOn: the user responded to the card
   seen: boolean("seen").default(false),
   actedOn: boolean("acted_on").default(false),
+  // Why the user acted on the card; feeds exclusions, the prompt and scoring
+  feedback: text("feedback").$type<RecommendationFeedback>(),
+  feedbackAt: timestamp("feedback_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One row per recommendation generation
+// The recommendations table keeps one row per (user, movie); runs keep each
+// batch intact with the inputs, model and prompt version that produced it
+export const recommendationRuns = pgTable("recommendation_runs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  status: text("status")
+    .$type<RecommendationRunStatus>()
+    .notNull()
+    .default("running"),
+  trigger: text("trigger")
+    .$type<RecommendationRunTrigger>()
+    .notNull()
+    .default("user"),
+  inputs: jsonb("inputs").$type<RecommendationRunInputs>().notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptVersion: text("prompt_version").notNull(),
+  // Total generation time; resumed streams add their time to the same run
+  latencyMs: integer("latency_ms"),
+  results: jsonb("results")
+    .$type<MovieRecommendation[]>()
+    .notNull()
+    .default([]),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  // Set when the user opens a weekly digest, which clears the "New picks" badge
+  seenAt: timestamp("seen_at"),
+});
+
+// Turns of the "refine these picks" chat, in order, per recommendation run
+export const recommendationChatMessages = pgTable(
+  "recommendation_chat_messages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    runId: uuid("run_id")
+      .notNull()
+      .references(() => recommendationRuns.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role").$type<"user" | "assistant">().notNull(),
+    content: text("content").notNull(),
+    // Set on assistant turns only
+    mode: text("mode").$type<RefinementMode>(),
+    constraints: jsonb("constraints").$type<RecommendationConstraints>(),
+    recommendations: jsonb("recommendations")
+      .$type<MovieRecommendation[]>()
+      .notNull()
+      .default([]),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }
+);
+
+// Queued generations for the background worker (lib/recommendations/jobs)
+// lockedAt is set when a worker claims the job; a job whose lock goes stale
+// is claimed again
+export const recommendationJobs = pgTable(
+  "recommendation_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    runId: uuid("run_id").references(() => recommendationRuns.id, {
+      onDelete: "set null",
+    }),
+    status: text("status")
+      .$type<RecommendationJobStatus>()
+      .notNull()
+      .default("queued"),
+    stage: text("stage")
+      .$type<RecommendationStage>()
+      .notNull()
+      .default("queued"),
+    request: jsonb("request").$type<RecommendationJobRequest>().notNull(),
+    results: jsonb("results")
+      .$type<MovieRecommendation[]>()
+      .notNull()
+      .default([]),
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(0),
+    lockedAt: timestamp("locked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [
+    index("recommendation_jobs_status_created_idx").on(
+      table.status,
+      table.createdAt
+    ),
+  ]
+);
+
+// One row per generation or refine turn counted against the user's quota
+// Rows older than the quota window are no longer read
+export const recommendationUsage = pgTable(
+  "recommendation_usage",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    kind: text("kind").$type<RecommendationUsageKind>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("recommendation_usage_user_created_idx").on(
+      table.userId,
+      table.createdAt
+    ),
+  ]
+);
+
+// One row per model call made for a user: tokens, estimated cost, latency
+// and whether the answer was usable (lib/recommendations/telemetry)
+export const llmCalls = pgTable(
+  "llm_calls",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    // Kept when the user or run is deleted so cost totals stay complete
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    runId: uuid("run_id").references(() => recommendationRuns.id, {
+      onDelete: "set null",
+    }),
+    purpose: text("purpose").$type<LLMCallPurpose>().notNull(),
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    promptVersion: text("prompt_version").notNull(),
+    promptTokens: integer("prompt_tokens"),
+    completionTokens: integer("completion_tokens"),
+    // null when the model has no known pricing (local or fixture models)
+    costUsd: doublePrecision("cost_usd"),
+    latencyMs: integer("latency_ms").notNull(),
+    outcome: text("outcome").$type<LLMCallOutcome>().notNull(),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("llm_calls_created_idx").on(table.createdAt),
+    index("llm_calls_user_created_idx").on(table.userId, table.createdAt),
+  ]
+);
+
 // Track movies user has watched
 // This helps with recommendation accuracy and user analytics
 export const watchHistory = pgTable("watch_history", {
@@ -144,6 +328,30 @@ export const watchHistory = pgTable("watch_history", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One row per catalog sync of the movies table (lib/catalog-sync)
+// changesUntil is how far TMDB's changes feed has been applied; the next sync
+// reads the feed from the latest one
+export const catalogSyncRuns = pgTable(
+  "catalog_sync_runs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    status: text("status")
+      .$type<CatalogSyncStatus>()
+      .notNull()
+      .default("running"),
+    changesFrom: timestamp("changes_from"),
+    changesUntil: timestamp("changes_until"),
+    changed: integer("changed").notNull().default(0),
+    updated: integer("updated").notNull().default(0),
+    failed: integer("failed").notNull().default(0),
+    removed: integer("removed").notNull().default(0),
+    error: text("error"),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [index("catalog_sync_runs_started_idx").on(table.startedAt)]
+);
+
 // Define relationships between tables
 // This helps with type safety and query optimization
 
@@ -151,6 +359,10 @@ export const usersRelations = relations(users, ({ many }) => ({
   ratings: many(userRatings),
   wantToWatch: many(wantToWatch),
   recommendations: many(recommendations),
+  recommendationRuns: many(recommendationRuns),
+  recommendationJobs: many(recommendationJobs),
+  recommendationUsage: many(recommendationUsage),
+  llmCalls: many(llmCalls),
   watchHistory: many(watchHistory),
 }));
 
@@ -197,6 +409,66 @@ export const recommendationsRelations = relations(
   })
 );
 
+export const recommendationRunsRelations = relations(
+  recommendationRuns,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [recommendationRuns.userId],
+      references: [users.id],
+    }),
+    chatMessages: many(recommendationChatMessages),
+  })
+);
+
+export const recommendationChatMessagesRelations = relations(
+  recommendationChatMessages,
+  ({ one }) => ({
+    run: one(recommendationRuns, {
+      fields: [recommendationChatMessages.runId],
+      references: [recommendationRuns.id],
+    }),
+    user: one(users, {
+      fields: [recommendationChatMessages.userId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const recommendationJobsRelations = relations(
+  recommendationJobs,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [recommendationJobs.userId],
+      references: [users.id],
+    }),
+    run: one(recommendationRuns, {
+      fields: [recommendationJobs.runId],
+      references: [recommendationRuns.id],
+    }),
+  })
+);
+
+export const recommendationUsageRelations = relations(
+  recommendationUsage,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [recommendationUsage.userId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const llmCallsRelations = relations(llmCalls, ({ one }) => ({
+  user: one(users, {
+    fields: [llmCalls.userId],
+    references: [users.id],
+  }),
+  run: one(recommendationRuns, {
+    fields: [llmCalls.runId],
+    references: [recommendationRuns.id],
+  }),
+}));
+
 export const watchHistoryRelations = relations(watchHistory, ({ one }) => ({
   user: one(users, {
     fields: [watchHistory.userId],
@@ -226,5 +498,25 @@ export type NewWantToWatch = typeof wantToWatch.$inferInsert;
 export type Recommendation = typeof recommendations.$inferSelect;
 export type NewRecommendation = typeof recommendations.$inferInsert;
 
+export type RecommendationRunRow = typeof recommendationRuns.$inferSelect;
+export type NewRecommendationRun = typeof recommendationRuns.$inferInsert;
+
+export type RecommendationChatMessageRow =
+  typeof recommendationChatMessages.$inferSelect;
+export type NewRecommendationChatMessage =
+  typeof recommendationChatMessages.$inferInsert;
+
+export type RecommendationJobRow = typeof recommendationJobs.$inferSelect;
+export type NewRecommendationJob = typeof recommendationJobs.$inferInsert;
+
+export type RecommendationUsage = typeof recommendationUsage.$inferSelect;
+export type NewRecommendationUsage = typeof recommendationUsage.$inferInsert;
+
+export type LLMCall = typeof llmCalls.$inferSelect;
+export type NewLLMCall = typeof llmCalls.$inferInsert;
+
 export type WatchHistory = typeof watchHistory.$inferSelect;
 export type NewWatchHistory = typeof watchHistory.$inferInsert;
+
+export type CatalogSyncRun = typeof catalogSyncRuns.$inferSelect;
+export type NewCatalogSyncRun = typeof catalogSyncRuns.$inferInsert;
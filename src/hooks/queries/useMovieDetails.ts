@@ -1,11 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
-import { getMovieDetails } from "@/lib/api";
+import { getMovieDetails, getMovieDetailsBatch } from "@/lib/api";
+import { MOVIE_BATCH_CONFIG } from "@/lib/constants";
 import { TMDBMovie } from "@/lib/tmdb";
+import { chunk } from "@/lib/utils";
 
 // React Query hooks for individual and batch movie detail fetching
 //
-// DUAL-CACHING: Next.js ISR (24h) + React Query (24h stale, 7-day GC)
-// BATCH PROCESSING: Efficient handling with stable query keys and partial success
+// DUAL-CACHING: Postgres movie cache on the server + React Query (24h stale, 7-day GC)
+// BATCH PROCESSING: One POST /api/movies/batch per MAX_IDS movies, stable
+// query keys and partial success
 // LONG CACHE: 24-hour stale time due to stable movie metadata
 
 export const useMovieDetails = (movieId: number | null) => {
@@ -33,28 +36,24 @@ export const useMovieDetailsBatch = (movieIds: number[]) => {
         return {};
       }
 
-      const moviePromises = validIds.map(async (id) => {
-        try {
-          const movie = await getMovieDetails(id);
-          return { id, movie, success: true };
-        } catch (error) {
-          console.warn(`❌ Failed to fetch movie ${id}:`, error);
-          return { id, movie: null, success: false };
-        }
-      });
-
-      const results = await Promise.allSettled(moviePromises);
+      const batches = chunk(validIds, MOVIE_BATCH_CONFIG.MAX_IDS);
+      // A failed batch leaves its movies out instead of failing the rest
+      const results = await Promise.all(
+        batches.map((ids) =>
+          getMovieDetailsBatch(ids).catch((error) => {
+            console.warn("❌ Failed to fetch movie details batch:", error);
+            return { movies: {}, errors: {} };
+          })
+        )
+      );
 
       const movieMap: Record<number, TMDBMovie> = {};
-      results.forEach((result) => {
-        if (
-          result.status === "fulfilled" &&
-          result.value.success &&
-          result.value.movie
-        ) {
-          movieMap[result.value.id] = result.value.movie;
+      for (const { movies, errors } of results) {
+        Object.assign(movieMap, movies);
+        for (const [id, error] of Object.entries(errors)) {
+          console.warn(`❌ Failed to fetch movie ${id}:`, error);
         }
-      });
+      }
 
       return movieMap;
     },
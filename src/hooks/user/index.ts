@@ -1,2 +1,7 @@
 // User data hooks
 export { useRecommendations } from "./useRecommendations";
+export { useRecommendationRuns } from "./useRecommendationRuns";
+export { useRecommendationChat } from "./useRecommendationChat";
+export { useRecommendationQuota } from "./useRecommendationQuota";
+export { useWeeklyDigest } from "./useWeeklyDigest";
+export { useOnboarding } from "./useOnboarding";
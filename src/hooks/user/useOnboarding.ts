@@ -0,0 +1,37 @@
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getOnboarding, saveFavoriteGenres } from "@/lib/api";
+
+// Onboarding wizard data: progress, the genres to pick from and the grid of
+// films to rate. Saving genres refetches the grid so it leans towards them
+
+const ONBOARDING_KEY = ["onboarding"];
+
+export const useOnboarding = () => {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ONBOARDING_KEY,
+    queryFn: getOnboarding,
+    enabled: !!session?.user?.email,
+    // The grid shouldn't reshuffle while the user is rating it
+    staleTime: Infinity,
+  });
+
+  const saveGenresMutation = useMutation({
+    mutationFn: saveFavoriteGenres,
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: ONBOARDING_KEY }),
+  });
+
+  return {
+    status: query.data?.status || null,
+    genres: query.data?.genres || [],
+    movies: query.data?.movies || [],
+    isLoading: query.isLoading,
+    error: query.error?.message || saveGenresMutation.error?.message || null,
+    saveGenres: saveGenresMutation.mutateAsync,
+    isSavingGenres: saveGenresMutation.isPending,
+  };
+};
@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { MovieRecommendation, RefinementMode } from "@/types/movie";
+import { getRecommendationChat, streamRefinement } from "@/lib/api";
+import { handleApiError } from "@/lib/errorHandling";
+import { RECOMMENDATION_QUOTA_KEY } from "./useRecommendationQuota";
+
+// "Refine these picks" chat for the recommendation run on screen
+// Saved turns come from React Query; the turn being sent is shown from local
+// state until the server has stored it. Revised picks are handed to
+// onRecommendation as they stream in, so the cards update live
+
+export const useRecommendationChat = (
+  runId: string | null,
+  onRecommendation: (
+    recommendation: MovieRecommendation,
+    mode: RefinementMode,
+    isFirst: boolean
+  ) => void
+) => {
+  const queryClient = useQueryClient();
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [pendingReply, setPendingReply] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const query = useQuery({
+    queryKey: ["recommendationChat", runId],
+    queryFn: () => getRecommendationChat(runId!),
+    enabled: !!runId,
+  });
+
+  // A new batch starts a new conversation
+  useEffect(() => {
+    setError(null);
+    return () => abortControllerRef.current?.abort();
+  }, [runId]);
+
+  const sendMessage = async (message: string) => {
+    if (!runId || abortControllerRef.current) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setPendingMessage(message);
+    setPendingReply(null);
+    setError(null);
+
+    let mode: RefinementMode = "replace";
+    let received = 0;
+
+    try {
+      await streamRefinement(runId, message, {
+        signal: controller.signal,
+        onReply: (reply) => {
+          mode = reply.mode;
+          setPendingReply(reply.reply);
+        },
+        onRecommendation: (recommendation) => {
+          onRecommendation(recommendation, mode, received === 0);
+          received++;
+        },
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) setError(handleApiError(error));
+    } finally {
+      // Both turns are saved server-side, even when the stream failed
+      queryClient.invalidateQueries({ queryKey: RECOMMENDATION_QUOTA_KEY });
+      await queryClient.invalidateQueries({
+        queryKey: ["recommendationChat", runId],
+      });
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setPendingMessage(null);
+      setPendingReply(null);
+    }
+  };
+
+  return {
+    messages: query.data?.messages || [],
+    pendingMessage,
+    pendingReply,
+    isLoading: query.isLoading,
+    isSending: pendingMessage !== null,
+    error: error || query.error?.message || null,
+    sendMessage,
+  };
+};
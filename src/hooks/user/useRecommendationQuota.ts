@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getRecommendationQuota } from "@/lib/api";
+
+// Recommendation quota: generations left today and when the next one is allowed
+// Generating or refining invalidates ["recommendationQuota"]; the query also
+// refreshes itself once a wait is over so the generate button comes back
+
+export const RECOMMENDATION_QUOTA_KEY = ["recommendationQuota"];
+
+export const useRecommendationQuota = () => {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: RECOMMENDATION_QUOTA_KEY,
+    queryFn: getRecommendationQuota,
+    enabled: !!session?.user?.email,
+  });
+
+  const availableAt = query.data?.availableAt;
+
+  useEffect(() => {
+    if (!availableAt) return;
+
+    const timeout = setTimeout(
+      () =>
+        queryClient.invalidateQueries({ queryKey: RECOMMENDATION_QUOTA_KEY }),
+      Math.max(new Date(availableAt).getTime() - Date.now(), 0) + 500
+    );
+    return () => clearTimeout(timeout);
+  }, [availableAt, queryClient]);
+
+  return {
+    quota: query.data || null,
+    // Unknown quota (still loading, or failed) never blocks generating;
+    // the server has the final say
+    canGenerate: !availableAt,
+  };
+};
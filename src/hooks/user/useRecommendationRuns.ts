@@ -0,0 +1,28 @@
+import { useSession } from "next-auth/react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { getRecommendationRuns } from "@/lib/api";
+
+// Recommendation history: past generation runs, newest first
+// Pages are loaded on demand with React Query's infinite queries
+
+export const useRecommendationRuns = () => {
+  const { data: session } = useSession();
+
+  const query = useInfiniteQuery({
+    queryKey: ["recommendationRuns"],
+    queryFn: ({ pageParam }) => getRecommendationRuns(pageParam),
+    getNextPageParam: (lastPage) =>
+      lastPage.hasMore ? lastPage.page + 1 : undefined,
+    initialPageParam: 1,
+    enabled: !!session?.user?.email,
+  });
+
+  return {
+    runs: query.data?.pages.flatMap((page) => page.runs) || [],
+    isLoading: query.isLoading,
+    error: query.error?.message || null,
+    hasMoreRuns: !!query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMoreRuns: () => query.fetchNextPage(),
+  };
+};
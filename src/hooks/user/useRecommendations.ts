@@ -1,18 +1,42 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   MovieRecommendation,
-  RatedMovie,
-  WantToWatchMovie,
+  RecommendationConstraints,
+  RecommendationFeedback,
+  RecommendationProgress,
+  RefinementMode,
 } from "@/types/movie";
 import { handleApiError } from "@/lib/errorHandling";
+import {
+  sendRecommendationFeedback,
+  streamRecommendations,
+} from "@/lib/api";
+import { RECOMMENDATION_QUOTA_KEY } from "./useRecommendationQuota";
 
 // Manages AI-powered movie recommendations
 // This hook encapsulates all the logic for generating and managing recommendations
-// It accepts rated movies and want-to-watch list as parameters to ensure consistency
-export const useRecommendations = (
-  ratedMovies: RatedMovie[] = [],
-  wantToWatchList: WantToWatchMovie[] = []
-) => {
+// The server builds the taste profile from the user's database history,
+// so no ratings or watchlist data is sent with the request
+//
+// STREAMING: Recommendations arrive one at a time over SSE and are rendered immediately;
+// progress holds the pipeline stage the server last reported, for the loading screen
+// CANCELLATION: cancelRecommendations aborts the stream and keeps what already arrived
+// RECONNECTION: A dropped stream is resumed by asking only for the missing recommendations
+// CONSTRAINTS: Mood, runtime, era, language, audience and streaming filters
+// from the request form are sent with every generation (and resumed stream)
+// FEEDBACK: "Not interested" and "seen it" remove the card right away and are
+// rolled back if saving fails; future generations learn from both
+// REFINE CHAT: runId ties the cards to their run; revised picks from the chat
+// arrive through addRevisedRecommendation
+// QUOTA: every generation refreshes the quota shown next to the generate button
+
+const RECOMMENDATION_COUNT = 5;
+const MAX_RECONNECT_ATTEMPTS = 2;
+const RECONNECT_DELAY = 1000;
+
+export const useRecommendations = () => {
+  const queryClient = useQueryClient();
   const [recommendations, setRecommendations] = useState<MovieRecommendation[]>(
     []
   );
@@ -20,18 +44,27 @@ export const useRecommendations = (
     useState(false);
   const [isLoadingLastRecommendations, setIsLoadingLastRecommendations] =
     useState(false);
+  const [constraints, setConstraints] = useState<RecommendationConstraints>(
+    {}
+  );
+  const [runId, setRunId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<RecommendationProgress | null>(
+    null
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const loadLastRecommendations = async () => {
       setIsLoadingLastRecommendations(true);
       try {
-        const response = await fetch("/api/recommendations?last=true&limit=5");
+        const response = await fetch("/api/recommendations?last=true");
 
         if (response.ok) {
           const data = await response.json();
 
           if (data.success && data.recommendations.length > 0) {
             setRecommendations(data.recommendations);
+            setRunId(data.runId ?? null);
           }
         }
       } catch (error) {
@@ -47,54 +80,131 @@ export const useRecommendations = (
     loadLastRecommendations();
   }, []);
 
+  // Abort any in-flight stream when the component unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   const generateRecommendations = async (): Promise<void> => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const received: MovieRecommendation[] = [];
+    // Resumed streams add to the run the first attempt started
+    let runId: string | undefined;
+    setRecommendations([]);
+    setRunId(null);
+    setProgress(null);
     setIsGeneratingRecommendations(true);
 
     try {
-      const response = await fetch("/api/recommend", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ratedMovies,
-          wantToWatchList,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          handleApiError(
-            errorData.error || "Failed to generate recommendations"
-          )
+      for (let attempt = 0; ; attempt++) {
+        const status = await streamRecommendations(
+          {
+            count: RECOMMENDATION_COUNT - received.length,
+            excludeMovieIds: received.map(
+              (recommendation) => recommendation.id
+            ),
+            runId,
+            constraints,
+          },
+          {
+            signal: controller.signal,
+            onStart: (start) => {
+              runId = runId || start.runId || undefined;
+              setRunId(runId ?? null);
+            },
+            onStage: setProgress,
+            onRecommendation: (recommendation) => {
+              received.push(recommendation);
+              setRecommendations([...received]);
+            },
+          }
         );
-      }
 
-      const data = await response.json();
-
-      setRecommendations(data);
+        if (status === "done" || received.length >= RECOMMENDATION_COUNT) {
+          break;
+        }
 
-      const latestResponse = await fetch(
-        "/api/recommendations?last=true&limit=5"
-      );
-      if (latestResponse.ok) {
-        const latestData = await latestResponse.json();
-        if (latestData.success && latestData.recommendations.length > 0) {
-          setRecommendations(latestData.recommendations);
+        if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+          throw new Error("Lost connection while generating recommendations");
         }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, RECONNECT_DELAY * (attempt + 1))
+        );
       }
     } catch (error) {
+      if (controller.signal.aborted) return;
       throw new Error(handleApiError(error));
     } finally {
-      setIsGeneratingRecommendations(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsGeneratingRecommendations(false);
+        setProgress(null);
+      }
+      queryClient.invalidateQueries({ queryKey: RECOMMENDATION_QUOTA_KEY });
     }
   };
 
+  const cancelRecommendations = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsGeneratingRecommendations(false);
+    setProgress(null);
+  }, []);
+
+  const giveFeedback = useCallback(
+    async (movieId: number, feedback: RecommendationFeedback) => {
+      const hidesCard = feedback !== "added_to_watchlist";
+      let previous: MovieRecommendation[] = [];
+
+      setRecommendations((current) => {
+        previous = current;
+        return current
+          .map((rec) => (rec.id === movieId ? { ...rec, feedback } : rec))
+          .filter((rec) => !hidesCard || rec.id !== movieId);
+      });
+
+      try {
+        await sendRecommendationFeedback(movieId, feedback);
+      } catch (error) {
+        console.error("❌ useRecommendations: Error saving feedback:", error);
+        setRecommendations(previous);
+      }
+    },
+    []
+  );
+
+  // In "replace" mode the first revised pick clears the old cards, so they
+  // stay visible until something better has arrived
+  const addRevisedRecommendation = useCallback(
+    (
+      recommendation: MovieRecommendation,
+      mode: RefinementMode,
+      isFirst: boolean
+    ) => {
+      setRecommendations((current) =>
+        isFirst && mode === "replace"
+          ? [recommendation]
+          : [...current, recommendation]
+      );
+    },
+    []
+  );
+
   return {
     recommendations,
     isGeneratingRecommendations,
     isLoadingLastRecommendations,
+    progress,
     generateRecommendations,
+    cancelRecommendations,
+    giveFeedback,
+    constraints,
+    setConstraints,
+    runId,
+    addRevisedRecommendation,
   };
 };
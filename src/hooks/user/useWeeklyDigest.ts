@@ -0,0 +1,34 @@
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getWeeklyDigest, markWeeklyDigestSeen } from "@/lib/api";
+
+// "New picks for you": the weekly digest precomputed by the scheduler
+// hasNewPicks drives the header badge until markSeen is called
+
+const WEEKLY_DIGEST_KEY = ["weeklyDigest"];
+
+export const useWeeklyDigest = () => {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: WEEKLY_DIGEST_KEY,
+    queryFn: getWeeklyDigest,
+    enabled: !!session?.user?.email,
+    // Digests are made in the background, at most once a week
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const markSeenMutation = useMutation({
+    mutationFn: markWeeklyDigestSeen,
+    onMutate: () => queryClient.setQueryData(WEEKLY_DIGEST_KEY, null),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: WEEKLY_DIGEST_KEY }),
+  });
+
+  return {
+    digest: query.data || null,
+    hasNewPicks: !!query.data,
+    markSeen: () => markSeenMutation.mutate(),
+  };
+};
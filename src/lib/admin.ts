@@ -0,0 +1,10 @@
+// Admin access for internal reporting routes
+// ADMIN_EMAILS is a comma-separated list of account emails; nobody is an
+// admin while it is unset
+
+export const isAdminEmail = (email: string): boolean =>
+  (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((admin) => admin.trim().toLowerCase())
+    .filter(Boolean)
+    .includes(email.toLowerCase());
@@ -7,10 +7,25 @@
 // - SCALE BREAKERS: Our API rate limits, network latency, API route failures
 // - FUTURE IMPROVEMENTS: Add client-side caching, request deduplication, error retry logic
 //
-// CURRENT USAGE: Movie fetching, search, details
+// CURRENT USAGE: Movie fetching, search, details, streamed recommendations,
+// recommendation feedback, history, quota, weekly picks, the refine chat and
+// onboarding
 // ARCHITECTURE: Client → Next.js API → TMDB → Response
 
 import { TMDBResponse, TMDBMovie, TMDBGenresResponse } from "./tmdb";
+import { readSSEStream } from "./sse";
+import {
+  MovieRecommendation,
+  OnboardingMovie,
+  OnboardingStatus,
+  RecommendationChatMessage,
+  RecommendationConstraints,
+  RecommendationFeedback,
+  RecommendationProgress,
+  RecommendationQuota,
+  RecommendationRun,
+  RefinementMode,
+} from "@/types/movie";
 
 export const getPopularMovies = async (
   page: number = 1
@@ -64,6 +79,32 @@ export const getMovieDetails = async (movieId: number): Promise<TMDBMovie> => {
   return data;
 };
 
+// Up to MOVIE_BATCH_CONFIG.MAX_IDS ids; movies that couldn't be loaded are
+// listed in errors
+export const getMovieDetailsBatch = async (
+  movieIds: number[]
+): Promise<{
+  movies: Record<number, TMDBMovie>;
+  errors: Record<number, string>;
+}> => {
+  const response = await fetch("/api/movies/batch", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ids: movieIds }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  return response.json();
+};
+
 export const getGenres = async (): Promise<TMDBGenresResponse> => {
   const response = await fetch("/api/genres");
 
@@ -96,3 +137,257 @@ export const getMoviesByGenre = async (
 
   return data;
 };
+
+// Streams AI recommendations from /api/recommend/stream, calling onRecommendation per movie
+// Resolves "done" when the server finished, or "interrupted" if the connection dropped
+// early so the caller can reconnect; server-side failures are thrown as errors
+// onStart receives the run id to send back when resuming; onStage reports each
+// pipeline step as it begins, for the loading screen. Aborting the signal
+// closes the connection, which cancels the generation on the server
+export const streamRecommendations = async (
+  body: Record<string, unknown>,
+  {
+    signal,
+    onStart,
+    onStage,
+    onRecommendation,
+  }: {
+    signal?: AbortSignal;
+    onStart?: (start: { count: number; runId: string | null }) => void;
+    onStage?: (progress: RecommendationProgress) => void;
+    onRecommendation: (recommendation: MovieRecommendation) => void;
+  }
+): Promise<"done" | "interrupted"> => {
+  let response: Response;
+  try {
+    response = await fetch("/api/recommend/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return "interrupted";
+  }
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  try {
+    for await (const event of readSSEStream(response.body)) {
+      const data = JSON.parse(event.data);
+
+      if (event.event === "start") {
+        onStart?.(data);
+      } else if (event.event === "stage") {
+        onStage?.(data);
+      } else if (event.event === "recommendation") {
+        onRecommendation({ ...data, overview: data.overview || "" });
+      } else if (event.event === "error") {
+        throw new Error(data.error || "Failed to generate recommendations");
+      } else if (event.event === "done") {
+        return "done";
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted || !(error instanceof TypeError)) throw error;
+  }
+
+  return "interrupted";
+};
+
+export const sendRecommendationFeedback = async (
+  movieId: number,
+  feedback: RecommendationFeedback
+): Promise<void> => {
+  const response = await fetch(`/api/recommendations/${movieId}/feedback`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ feedback }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+};
+
+export const getRecommendationRuns = async (
+  page: number = 1
+): Promise<{ runs: RecommendationRun[]; page: number; hasMore: boolean }> => {
+  const response = await fetch(`/api/recommendations/runs?page=${page}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  return response.json();
+};
+
+export const getRecommendationQuota =
+  async (): Promise<RecommendationQuota> => {
+    const response = await fetch("/api/recommendations/quota");
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.error || `HTTP error! status: ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    return data.quota;
+  };
+
+// The newest weekly digest the user hasn't opened, or null
+export const getWeeklyDigest = async (): Promise<RecommendationRun | null> => {
+  const response = await fetch("/api/recommendations/digest");
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  const data = await response.json();
+  return data.run;
+};
+
+export const markWeeklyDigestSeen = async (): Promise<void> => {
+  const response = await fetch("/api/recommendations/digest", {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+};
+
+// Onboarding progress, the genres to pick from and the films to rate
+export const getOnboarding = async (): Promise<{
+  status: OnboardingStatus;
+  genres: Array<{ id: number; name: string }>;
+  movies: OnboardingMovie[];
+}> => {
+  const response = await fetch("/api/onboarding");
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  return response.json();
+};
+
+export const saveFavoriteGenres = async (
+  favoriteGenres: number[]
+): Promise<void> => {
+  const response = await fetch("/api/onboarding", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ favoriteGenres }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+};
+
+export const getRecommendationChat = async (
+  runId: string
+): Promise<{
+  messages: RecommendationChatMessage[];
+  picks: MovieRecommendation[];
+  constraints: RecommendationConstraints;
+}> => {
+  const response = await fetch(`/api/recommendations/runs/${runId}/chat`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  return response.json();
+};
+
+// Sends a refine chat message and streams the revised picks
+// onReply arrives before the first pick and says whether the picks replace or
+// add to the cards; resolves with the saved assistant turn. A dropped
+// connection isn't resumed: the server keeps whatever already arrived
+export const streamRefinement = async (
+  runId: string,
+  message: string,
+  {
+    signal,
+    onReply,
+    onRecommendation,
+  }: {
+    signal?: AbortSignal;
+    onReply: (reply: {
+      reply: string;
+      mode: RefinementMode;
+      count: number;
+      constraints: RecommendationConstraints;
+    }) => void;
+    onRecommendation: (recommendation: MovieRecommendation) => void;
+  }
+): Promise<RecommendationChatMessage | null> => {
+  const response = await fetch(`/api/recommendations/runs/${runId}/chat`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ message }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `HTTP error! status: ${response.status}`
+    );
+  }
+
+  for await (const event of readSSEStream(response.body)) {
+    const data = JSON.parse(event.data);
+
+    if (event.event === "reply") {
+      onReply(data);
+    } else if (event.event === "recommendation") {
+      onRecommendation({ ...data, overview: data.overview || "" });
+    } else if (event.event === "error") {
+      throw new Error(data.error || "Failed to refine recommendations");
+    } else if (event.event === "done") {
+      return data.message;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { syncCatalog } from "./catalog-sync";
+import {
+  createCatalogSyncRun,
+  deleteUnreferencedMovie,
+  finishCatalogSyncRun,
+  getCachedMovieIds,
+  getLastCatalogSync,
+  getMoviesDueForSync,
+  hasRunningCatalogSync,
+  markMovieSynced,
+  saveMovieDetails,
+} from "./db-utils";
+import type { TMDBMovie } from "./tmdb";
+import { getMovieChanges, getMovieDetails, TMDBError } from "./tmdb-client";
+
+vi.mock("./db-utils", () => ({
+  createCatalogSyncRun: vi.fn(),
+  deleteUnreferencedMovie: vi.fn(),
+  finishCatalogSyncRun: vi.fn(),
+  getCachedMovie: vi.fn(),
+  getCachedMovies: vi.fn(),
+  getCachedMovieIds: vi.fn(),
+  getLastCatalogSync: vi.fn(),
+  getMoviesDueForSync: vi.fn(),
+  hasRunningCatalogSync: vi.fn(),
+  markMovieSynced: vi.fn(),
+  saveMovieDetails: vi.fn(),
+}));
+
+vi.mock("./tmdb-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./tmdb-client")>()),
+  getMovieChanges: vi.fn(),
+  getMovieDetails: vi.fn(),
+}));
+
+type SyncRun = NonNullable<Awaited<ReturnType<typeof createCatalogSyncRun>>>;
+type SavedMovie = Awaited<ReturnType<typeof saveMovieDetails>>;
+
+const BUDGET_MS = 60000;
+
+const httpError = (status: number) =>
+  new TMDBError(`TMDB returned ${status}`, "HTTP", "/movie", { status });
+
+const mockChanges = (ids: number[]) =>
+  vi.mocked(getMovieChanges).mockResolvedValue({
+    page: 1,
+    results: ids.map((id) => ({ id })),
+    total_pages: 1,
+    total_results: ids.length,
+  });
+
+const mockDue = (rows: Array<[id: number, isPlaceholder: boolean]>) =>
+  vi
+    .mocked(getMoviesDueForSync)
+    .mockResolvedValue(
+      rows.map(([id, isPlaceholder]) => ({ id, isPlaceholder }))
+    );
+
+// The order movies were fetched from TMDB in
+const fetchedIds = () =>
+  vi.mocked(getMovieDetails).mock.calls.map(([movieId]) => movieId);
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.mocked(hasRunningCatalogSync).mockResolvedValue(false);
+  vi.mocked(getLastCatalogSync).mockResolvedValue(null);
+  vi.mocked(createCatalogSyncRun).mockResolvedValue({ id: "run-1" } as SyncRun);
+  vi.mocked(getCachedMovieIds).mockImplementation(async (ids) => ids);
+  vi.mocked(getMovieDetails).mockImplementation(
+    async (movieId) => ({ id: movieId, title: `Movie ${movieId}` }) as TMDBMovie
+  );
+  vi.mocked(saveMovieDetails).mockResolvedValue({} as SavedMovie);
+  vi.mocked(deleteUnreferencedMovie).mockResolvedValue(false);
+  mockChanges([]);
+  mockDue([]);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe("syncCatalog", () => {
+  it("refetches changed movies, then due rows in the order they were queued", async () => {
+    mockChanges([10, 11]);
+    vi.mocked(getCachedMovieIds).mockResolvedValue([11]);
+    mockDue([
+      [30, false],
+      [11, false],
+      [20, true],
+    ]);
+
+    const report = await syncCatalog({ budgetMs: BUDGET_MS });
+
+    // 11 came through the changes feed and isn't fetched twice
+    expect(fetchedIds()).toEqual([11, 30, 20]);
+    expect(report).toMatchObject({
+      status: "completed",
+      changed: 1,
+      updated: 3,
+      failed: 0,
+      changesCaughtUp: true,
+    });
+    expect(finishCatalogSyncRun).toHaveBeenCalledWith(
+      "run-1",
+      expect.objectContaining({ status: "completed", updated: 3 })
+    );
+  });
+
+  it("moves failing placeholders to the back of the queue", async () => {
+    mockDue([
+      [1, true],
+      [2, false],
+    ]);
+    vi.mocked(getMovieDetails).mockRejectedValue(httpError(500));
+
+    const report = await syncCatalog({ budgetMs: BUDGET_MS });
+
+    // A stale row keeps its old lastUpdated and is simply retried next time
+    expect(markMovieSynced).toHaveBeenCalledTimes(1);
+    expect(markMovieSynced).toHaveBeenCalledWith(1);
+    expect(report).toMatchObject({ updated: 0, failed: 2 });
+  });
+
+  it("deletes movies TMDB no longer has unless users point at them", async () => {
+    mockDue([
+      [1, false],
+      [2, true],
+    ]);
+    vi.mocked(getMovieDetails).mockRejectedValue(httpError(404));
+    vi.mocked(deleteUnreferencedMovie).mockImplementation(
+      async (movieId) => movieId === 1
+    );
+
+    const report = await syncCatalog({ budgetMs: BUDGET_MS });
+
+    expect(markMovieSynced).toHaveBeenCalledWith(2);
+    expect(report).toMatchObject({ removed: 1, failed: 1 });
+  });
+
+  it("leaves the changes window open when the feed can't be read", async () => {
+    vi.mocked(getMovieChanges).mockRejectedValue(httpError(503));
+    mockDue([[5, false]]);
+
+    const report = await syncCatalog({ budgetMs: BUDGET_MS });
+
+    expect(fetchedIds()).toEqual([5]);
+    expect(report?.changesCaughtUp).toBe(false);
+    expect(finishCatalogSyncRun).toHaveBeenCalledWith(
+      "run-1",
+      expect.objectContaining({ changesUntil: null })
+    );
+  });
+
+  it("does nothing while another sync is running", async () => {
+    vi.mocked(hasRunningCatalogSync).mockResolvedValue(true);
+
+    expect(await syncCatalog({ budgetMs: BUDGET_MS })).toBeNull();
+    expect(createCatalogSyncRun).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+import type { CatalogSyncReport } from "@/types/movie";
+import {
+  createCatalogSyncRun,
+  deleteUnreferencedMovie,
+  finishCatalogSyncRun,
+  getCachedMovieIds,
+  getLastCatalogSync,
+  getMoviesDueForSync,
+  hasRunningCatalogSync,
+  markMovieSynced,
+  saveMovieDetails,
+} from "./db-utils";
+import { fetchMovieDetailsForCache, isNotFound } from "./movie-cache";
+import { getMovieChanges } from "./tmdb-client";
+import { chunk } from "./utils";
+
+// Background sync of the cached movies table
+// 1. TMDB's changes feed (/movie/changes) since the last sync lists movies
+//    whose data changed; the cached ones are refetched
+// 2. Placeholder rows created by ratings and want-to-watch and rows past
+//    their TTL (see lib/movie-cache) are refetched, least recently updated
+//    first, which also replaces placeholder titles and overviews
+// TMDB requests go out one at a time, at most one per REQUEST_INTERVAL_MS, on
+// top of the client's rate-limit retries. A sync stops when its time budget
+// runs out and the next one carries on. Movies TMDB no longer has are
+// deleted unless user data points at them
+//
+// USAGE: /api/catalog/sync (cron), pnpm catalog:sync
+
+const REQUEST_INTERVAL_MS = 250;
+// TMDB serves at most 14 days of changes per request; older changes are left
+// to the TTL walk
+const MAX_CHANGES_WINDOW_MS = 1000 * 60 * 60 * 24 * 14;
+const FIRST_SYNC_WINDOW_MS = 1000 * 60 * 60 * 24;
+const DUE_BATCH_SIZE = 500;
+const ID_LOOKUP_BATCH_SIZE = 1000;
+// A sync still "running" after this long is assumed to have died
+const RUNNING_SYNC_TIMEOUT_MS = 1000 * 60 * 60;
+
+type Pacer = () => Promise<void>;
+
+const createPacer = (): Pacer => {
+  let nextRequestAt = 0;
+  return async () => {
+    const delay = nextRequestAt - Date.now();
+    if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+    nextRequestAt = Date.now() + REQUEST_INTERVAL_MS;
+  };
+};
+
+const toTMDBDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Every movie id in the feed, or null when it couldn't be read in full
+const readChangesFeed = async (
+  from: Date,
+  until: Date,
+  pace: Pacer,
+  hasTime: () => boolean
+): Promise<number[] | null> => {
+  const ids = new Set<number>();
+
+  try {
+    for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+      if (!hasTime()) return null;
+      await pace();
+      const data = await getMovieChanges(
+        toTMDBDate(from),
+        toTMDBDate(until),
+        page
+      );
+      totalPages = data.total_pages;
+      for (const change of data.results) ids.add(change.id);
+    }
+  } catch (error) {
+    console.warn(
+      "Catalog sync: reading the changes feed failed:",
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+
+  return Array.from(ids);
+};
+
+// null when another sync is already running
+export const syncCatalog = async ({
+  budgetMs,
+}: {
+  budgetMs: number;
+}): Promise<CatalogSyncReport | null> => {
+  const deadline = Date.now() + budgetMs;
+  const hasTime = () => Date.now() < deadline;
+
+  if (
+    await hasRunningCatalogSync(new Date(Date.now() - RUNNING_SYNC_TIMEOUT_MS))
+  ) {
+    return null;
+  }
+
+  const now = new Date();
+  const lastSync = await getLastCatalogSync();
+  const changesFrom = new Date(
+    Math.max(
+      lastSync?.changesUntil?.getTime() ?? now.getTime() - FIRST_SYNC_WINDOW_MS,
+      now.getTime() - MAX_CHANGES_WINDOW_MS
+    )
+  );
+
+  const run = await createCatalogSyncRun(changesFrom);
+  if (!run) throw new Error("Failed to start the catalog sync");
+
+  const report: CatalogSyncReport = {
+    runId: run.id,
+    status: "completed",
+    changed: 0,
+    updated: 0,
+    failed: 0,
+    removed: 0,
+    changesCaughtUp: false,
+  };
+  const pace = createPacer();
+  const synced = new Set<number>();
+
+  const syncMovie = async (movieId: number, isPlaceholder = false) => {
+    synced.add(movieId);
+    await pace();
+
+    try {
+      const movie = await fetchMovieDetailsForCache(movieId);
+      const saved = await saveMovieDetails(movie);
+      report[saved ? "updated" : "failed"]++;
+    } catch (error) {
+      if (!isNotFound(error)) {
+        // A placeholder stays due until it has details; marking it keeps one
+        // that keeps failing from being retried ahead of everything else
+        if (isPlaceholder) await markMovieSynced(movieId);
+        report.failed++;
+        return;
+      }
+      if (await deleteUnreferencedMovie(movieId)) {
+        report.removed++;
+        return;
+      }
+      // Kept for the users pointing at it, at the back of the queue
+      await markMovieSynced(movieId);
+      report.failed++;
+    }
+  };
+
+  try {
+    const changedIds = await readChangesFeed(changesFrom, now, pace, hasTime);
+    if (changedIds) {
+      const cachedIds: number[] = [];
+      for (const ids of chunk(changedIds, ID_LOOKUP_BATCH_SIZE)) {
+        cachedIds.push(...(await getCachedMovieIds(ids)));
+      }
+      report.changed = cachedIds.length;
+
+      for (const movieId of cachedIds) {
+        if (!hasTime()) break;
+        await syncMovie(movieId);
+      }
+      report.changesCaughtUp = cachedIds.every((id) => synced.has(id));
+    }
+
+    const due = hasTime() ? await getMoviesDueForSync(DUE_BATCH_SIZE) : [];
+    for (const movie of due) {
+      if (!hasTime()) break;
+      if (synced.has(movie.id)) continue;
+      await syncMovie(movie.id, movie.isPlaceholder);
+    }
+  } catch (error) {
+    console.error("Catalog sync failed:", error);
+    report.status = "failed";
+    report.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  await finishCatalogSyncRun(run.id, {
+    status: report.status,
+    changesUntil: report.changesCaughtUp ? now : null,
+    changed: report.changed,
+    updated: report.updated,
+    failed: report.failed,
+    removed: report.removed,
+    error: report.error,
+  });
+
+  return report;
+};
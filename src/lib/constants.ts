@@ -1,7 +1,10 @@
+import type { RecommendationStage } from "@/types/movie";
+
 // Centralized configuration and constants
 
 export const API_CONFIG = {
-  TMDB_BASE_URL: "https://api.themoviedb.org/3",
+  // Set TMDB_BASE_URL to use the local stand-in (pnpm tmdb:mock); server only
+  TMDB_BASE_URL: process.env.TMDB_BASE_URL || "https://api.themoviedb.org/3",
   TMDB_IMAGE_BASE_URL: "https://image.tmdb.org/t/p",
   DEFAULT_LANGUAGE: "en-US",
   DEFAULT_REGION: "US",
@@ -12,3 +15,37 @@ export const CACHE_CONFIG = {
   MOVIES_GC_TIME: 1000 * 60 * 30,
   RECOMMENDATIONS_STALE_TIME: 1000 * 60 * 60,
 } as const;
+
+// How long cached TMDB movie details stay fresh, by how long ago the movie
+// was released. Recent and upcoming movies change the most
+export const MOVIE_CACHE_CONFIG = {
+  RECENT_RELEASE_AGE: 1000 * 60 * 60 * 24 * 90,
+  RECENT_TTL: 1000 * 60 * 60 * 24,
+  CATALOG_RELEASE_AGE: 1000 * 60 * 60 * 24 * 365 * 2,
+  CATALOG_TTL: 1000 * 60 * 60 * 24 * 7,
+  ARCHIVE_TTL: 1000 * 60 * 60 * 24 * 30,
+} as const;
+
+// Most movie ids one POST /api/movies/batch request accepts
+export const MOVIE_BATCH_CONFIG = {
+  MAX_IDS: 100,
+} as const;
+
+// Recommendations stay locked until the user has rated this many movies
+export const ONBOARDING_CONFIG = {
+  MIN_PROFILE_RATINGS: 5,
+} as const;
+
+// Recommendation pipeline stages in the order they run, for the progress bar
+// of a streamed generation; backfill is skipped when there are enough
+// candidates
+export const RECOMMENDATION_STAGES: RecommendationStage[] = [
+  "queued",
+  "profile",
+  "candidates",
+  "ranking",
+  "explaining",
+  "backfill",
+  "saving",
+  "done",
+];
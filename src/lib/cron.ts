@@ -0,0 +1,7 @@
+// Scheduled job routes (e.g. Vercel Cron) authenticate with
+// Authorization: Bearer $CRON_SECRET; with no CRON_SECRET set they stay disabled
+
+export const isCronRequest = (req: Request): boolean => {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get("authorization") === `Bearer ${secret}`;
+};
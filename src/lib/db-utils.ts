@@ -2,11 +2,61 @@ import { db } from "@/db/drizzle";
 import {
   users,
   movies,
+  catalogSyncRuns,
   userRatings,
   wantToWatch,
   recommendations,
+  recommendationRuns,
+  recommendationJobs,
+  recommendationChatMessages,
+  recommendationUsage,
+  llmCalls,
+  watchHistory,
+  type NewCatalogSyncRun,
+  type NewLLMCall,
+  type RecommendationChatMessageRow,
+  type RecommendationJobRow,
+  type RecommendationRunRow,
 } from "@/db/schema";
-import { eq, and, desc } from "drizzle-orm";
+import {
+  eq,
+  and,
+  asc,
+  desc,
+  exists,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  max,
+  notExists,
+  or,
+  sql,
+} from "drizzle-orm";
+import type {
+  LLMUsageSummary,
+  MatchLevel,
+  MovieRecommendation,
+  PickType,
+  RecommendationChatMessage,
+  RecommendationConstraints,
+  RecommendationFeedback,
+  RecommendationJob,
+  RecommendationJobRequest,
+  RecommendationRun,
+  RecommendationRunInputs,
+  RecommendationRunStatus,
+  RecommendationRunTrigger,
+  RecommendationUsageKind,
+  RefinementMode,
+  ScoreFactor,
+  UserMovieHistory,
+} from "@/types/movie";
+import type { TMDBMovie } from "@/lib/tmdb";
+import { isPlaceholderTitle } from "@/lib/movieUtils";
+import { MOVIE_CACHE_CONFIG } from "@/lib/constants";
 
 // Database utility functions for common operations
 
@@ -279,8 +329,10 @@ export async function saveRecommendations(
     reason: string;
     personalizedReason: string;
     matchScore?: number;
-    matchLevel?: "LOVE IT" | "LIKE IT" | "MAYBE" | "RISKY";
-    enhancedReason?: string;
+    matchLevel?: MatchLevel;
+    scoreBreakdown?: ScoreFactor[];
+    resolutionConfidence?: number;
+    pickType?: PickType;
 
     posterPath?: string | null;
     poster_path?: string | null;
@@ -440,7 +492,9 @@ export async function saveRecommendations(
             personalizedReason: rec.personalizedReason,
             matchScore: rec.matchScore,
             matchLevel: rec.matchLevel,
-            enhancedReason: rec.enhancedReason,
+            scoreBreakdown: rec.scoreBreakdown,
+            resolutionConfidence: rec.resolutionConfidence,
+            pickType: rec.pickType,
             updatedAt: new Date(),
           })
           .where(
@@ -463,7 +517,9 @@ export async function saveRecommendations(
             personalizedReason: rec.personalizedReason,
             matchScore: rec.matchScore,
             matchLevel: rec.matchLevel,
-            enhancedReason: rec.enhancedReason,
+            scoreBreakdown: rec.scoreBreakdown,
+            resolutionConfidence: rec.resolutionConfidence,
+            pickType: rec.pickType,
           })
           .returning();
 
@@ -497,82 +553,1159 @@ export async function getUserRecommendations(userEmail: string) {
   }
 }
 
-// Get the last 5 recommendations with movie details for a user
-// This function joins the recommendations table with the movies table
-// to get complete movie information for display
-export async function getLastRecommendations(
+// Feedback the user gave on recommendation cards, keyed by movie id
+export async function getRecommendationFeedback(
   userEmail: string,
-  limit: number = 5
+  movieIds: number[]
 ) {
+  const feedback = new Map<number, RecommendationFeedback>();
+  if (movieIds.length === 0) return feedback;
+
   try {
-    // First get the user by email
     const user = await getUserByEmail(userEmail);
-    if (!user) {
-      return [];
-    }
+    if (!user) return feedback;
 
-    const lastRecommendations = await db
+    const rows = await db
       .select({
-        id: recommendations.id,
-        userId: recommendations.userId,
         movieId: recommendations.movieId,
-        reason: recommendations.reason,
-        matchScore: recommendations.matchScore,
-        matchLevel: recommendations.matchLevel,
-        personalizedReason: recommendations.personalizedReason,
-        enhancedReason: recommendations.enhancedReason,
-        generatedAt: recommendations.generatedAt,
-        seen: recommendations.seen,
-        actedOn: recommendations.actedOn,
-        createdAt: recommendations.createdAt,
-        updatedAt: recommendations.updatedAt,
-        title: movies.title,
-        overview: movies.overview,
-        posterPath: movies.posterPath,
-        backdropPath: movies.backdropPath,
-        releaseDate: movies.releaseDate,
-        voteAverage: movies.voteAverage,
-        voteCount: movies.voteCount,
-        popularity: movies.popularity,
-        runtime: movies.runtime,
-        status: movies.status,
-        tagline: movies.tagline,
-        budget: movies.budget,
-        revenue: movies.revenue,
-        genres: movies.genres,
-        productionCompanies: movies.productionCompanies,
+        feedback: recommendations.feedback,
       })
       .from(recommendations)
-      .innerJoin(movies, eq(recommendations.movieId, movies.id))
-      .where(eq(recommendations.userId, user.id))
-      .orderBy(desc(recommendations.updatedAt))
+      .where(
+        and(
+          eq(recommendations.userId, user.id),
+          inArray(recommendations.movieId, movieIds),
+          isNotNull(recommendations.feedback)
+        )
+      );
+
+    for (const row of rows) {
+      if (row.feedback) feedback.set(row.movieId, row.feedback);
+    }
+    return feedback;
+  } catch (error) {
+    console.error("Error fetching recommendation feedback:", error);
+    return feedback;
+  }
+}
+
+// Record what the user did with a recommendation card
+// "seen" also sets the seen column; every kind of feedback marks the card acted on
+// Returns null when the movie was never recommended to this user
+export async function saveRecommendationFeedback(
+  userEmail: string,
+  movieId: number,
+  feedback: RecommendationFeedback
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .update(recommendations)
+      .set({
+        feedback,
+        feedbackAt: new Date(),
+        actedOn: true,
+        ...(feedback === "seen" && { seen: true }),
+      })
+      .where(
+        and(
+          eq(recommendations.userId, user.id),
+          eq(recommendations.movieId, movieId)
+        )
+      )
+      .returning();
+
+    return result[0] || null;
+  } catch (error) {
+    console.error("Error saving recommendation feedback:", error);
+    return null;
+  }
+}
+
+// Recommendation run operations
+// A run is created before generation starts, so cancelled and failed
+// generations show up in the history too
+
+const toRecommendationRun = (row: RecommendationRunRow): RecommendationRun => ({
+  id: row.id,
+  status: row.status,
+  trigger: row.trigger,
+  inputs: row.inputs,
+  provider: row.provider,
+  model: row.model,
+  promptVersion: row.promptVersion,
+  latencyMs: row.latencyMs,
+  results: row.results,
+  error: row.error,
+  createdAt: row.createdAt.toISOString(),
+  completedAt: row.completedAt?.toISOString() || null,
+  seenAt: row.seenAt?.toISOString() || null,
+});
+
+export async function createRecommendationRun(
+  userEmail: string,
+  run: {
+    trigger?: RecommendationRunTrigger;
+    inputs: RecommendationRunInputs;
+    provider: string;
+    model: string;
+    promptVersion: string;
+  }
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .insert(recommendationRuns)
+      .values({ userId: user.id, ...run })
+      .returning();
+
+    return toRecommendationRun(result[0]);
+  } catch (error) {
+    console.error("Error creating recommendation run:", error);
+    return null;
+  }
+}
+
+export async function getRecommendationRun(userEmail: string, runId: string) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .select()
+      .from(recommendationRuns)
+      .where(
+        and(
+          eq(recommendationRuns.id, runId),
+          eq(recommendationRuns.userId, user.id)
+        )
+      )
+      .limit(1);
+
+    return result[0] ? toRecommendationRun(result[0]) : null;
+  } catch (error) {
+    console.error("Error fetching recommendation run:", error);
+    return null;
+  }
+}
+
+// Record the outcome of a run
+// Results are appended and latency added up, so a resumed stream finishes
+// the run it started instead of opening a new one
+export async function completeRecommendationRun(
+  userEmail: string,
+  runId: string,
+  outcome: {
+    status: RecommendationRunStatus;
+    latencyMs: number;
+    results: MovieRecommendation[];
+    error?: string | null;
+  }
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .update(recommendationRuns)
+      .set({
+        status: outcome.status,
+        latencyMs: sql`coalesce(${recommendationRuns.latencyMs}, 0) + ${outcome.latencyMs}`,
+        results: sql`${recommendationRuns.results} || ${JSON.stringify(
+          outcome.results
+        )}::jsonb`,
+        error: outcome.error ?? null,
+        completedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(recommendationRuns.id, runId),
+          eq(recommendationRuns.userId, user.id)
+        )
+      )
+      .returning();
+
+    return result[0] ? toRecommendationRun(result[0]) : null;
+  } catch (error) {
+    console.error("Error completing recommendation run:", error);
+    return null;
+  }
+}
+
+// Page through a user's runs, newest first
+export async function getRecommendationRuns(
+  userEmail: string,
+  page: number = 1,
+  pageSize: number = 10
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return { runs: [], hasMore: false };
+
+    // One extra row tells us whether an older page exists
+    const rows = await db
+      .select()
+      .from(recommendationRuns)
+      .where(eq(recommendationRuns.userId, user.id))
+      .orderBy(desc(recommendationRuns.createdAt))
+      .limit(pageSize + 1)
+      .offset((page - 1) * pageSize);
+
+    return {
+      runs: rows.slice(0, pageSize).map(toRecommendationRun),
+      hasMore: rows.length > pageSize,
+    };
+  } catch (error) {
+    console.error("Error fetching recommendation runs:", error);
+    return { runs: [], hasMore: false };
+  }
+}
+
+// The newest completed run the user generated themselves; failed, cancelled
+// and weekly digest runs are skipped
+export async function getLatestCompletedRecommendationRun(userEmail: string) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .select()
+      .from(recommendationRuns)
+      .where(
+        and(
+          eq(recommendationRuns.userId, user.id),
+          eq(recommendationRuns.status, "completed"),
+          eq(recommendationRuns.trigger, "user")
+        )
+      )
+      .orderBy(desc(recommendationRuns.createdAt))
+      .limit(1);
+
+    return result[0] ? toRecommendationRun(result[0]) : null;
+  } catch (error) {
+    console.error("Error fetching latest recommendation run:", error);
+    return null;
+  }
+}
+
+// Recommendation chat operations
+// Turns are scoped to a run the user owns; the run check doubles as the
+// authorization check
+
+const toRecommendationChatMessage = (
+  row: RecommendationChatMessageRow
+): RecommendationChatMessage => ({
+  id: row.id,
+  runId: row.runId,
+  role: row.role,
+  content: row.content,
+  mode: row.mode,
+  constraints: row.constraints,
+  recommendations: row.recommendations,
+  createdAt: row.createdAt.toISOString(),
+});
+
+// The run's chat, oldest turn first, or null when the run isn't the user's
+export async function getRecommendationChat(userEmail: string, runId: string) {
+  try {
+    const run = await getRecommendationRun(userEmail, runId);
+    if (!run) return null;
+
+    const rows = await db
+      .select()
+      .from(recommendationChatMessages)
+      .where(eq(recommendationChatMessages.runId, run.id))
+      .orderBy(asc(recommendationChatMessages.createdAt));
+
+    return { run, messages: rows.map(toRecommendationChatMessage) };
+  } catch (error) {
+    console.error("Error fetching recommendation chat:", error);
+    return null;
+  }
+}
+
+export async function saveRecommendationChatMessage(
+  userEmail: string,
+  runId: string,
+  message: {
+    role: "user" | "assistant";
+    content: string;
+    mode?: RefinementMode;
+    constraints?: RecommendationConstraints;
+    recommendations?: MovieRecommendation[];
+  }
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .insert(recommendationChatMessages)
+      .values({ runId, userId: user.id, ...message })
+      .returning();
+
+    return toRecommendationChatMessage(result[0]);
+  } catch (error) {
+    console.error("Error saving recommendation chat message:", error);
+    return null;
+  }
+}
+
+// Weekly digest operations
+// Digests are runs with trigger "weekly_digest", precomputed by the scheduler
+// in lib/recommendations/digest
+
+// Users due a digest: they have rated at least minRatings movies (the
+// onboarding gate), rated something since their last run and within the
+// active window, had no digest since digestBefore and have no job waiting
+export async function getWeeklyDigestCandidates({
+  activeSince,
+  digestBefore,
+  minRatings,
+  limit,
+}: {
+  activeSince: Date;
+  digestBefore: Date;
+  minRatings: number;
+  limit: number;
+}) {
+  try {
+    const lastRunAt = db
+      .select({ createdAt: max(recommendationRuns.createdAt) })
+      .from(recommendationRuns)
+      .where(eq(recommendationRuns.userId, users.id));
+    const ratedCount = db
+      .select({ count: sql`count(*)` })
+      .from(userRatings)
+      .where(eq(userRatings.userId, users.id));
+
+    const rows = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(
+        and(
+          sql`(${ratedCount}) >= ${minRatings}`,
+          exists(
+            db
+              .select({ id: userRatings.id })
+              .from(userRatings)
+              .where(
+                and(
+                  eq(userRatings.userId, users.id),
+                  gte(userRatings.updatedAt, activeSince),
+                  gt(
+                    userRatings.updatedAt,
+                    sql`coalesce((${lastRunAt}), '-infinity'::timestamp)`
+                  )
+                )
+              )
+          ),
+          notExists(
+            db
+              .select({ id: recommendationRuns.id })
+              .from(recommendationRuns)
+              .where(
+                and(
+                  eq(recommendationRuns.userId, users.id),
+                  eq(recommendationRuns.trigger, "weekly_digest"),
+                  gte(recommendationRuns.createdAt, digestBefore)
+                )
+              )
+          ),
+          notExists(
+            db
+              .select({ id: recommendationJobs.id })
+              .from(recommendationJobs)
+              .where(
+                and(
+                  eq(recommendationJobs.userId, users.id),
+                  inArray(recommendationJobs.status, ["queued", "running"])
+                )
+              )
+          )
+        )
+      )
       .limit(limit);
 
-    const transformedRecommendations = lastRecommendations.map((rec) => ({
-      id: rec.movieId,
-      title: rec.title,
-      poster_path: rec.posterPath,
-      release_date: rec.releaseDate || "",
-      overview: rec.overview || "",
-      vote_average: rec.voteAverage ? Number(rec.voteAverage) : 0,
-      vote_count: rec.voteCount || 0,
-      reason: rec.reason,
-      personalizedReason: rec.personalizedReason || undefined,
-      matchScore: rec.matchScore || undefined,
-      matchLevel: rec.matchLevel as
-        | "LOVE IT"
-        | "LIKE IT"
-        | "MAYBE"
-        | "RISKY"
-        | undefined,
-      enhancedReason: rec.enhancedReason || undefined,
-      revenue: rec.revenue || undefined,
-      popularity: rec.popularity ? Number(rec.popularity) : undefined,
-    }));
-
-    return transformedRecommendations;
-  } catch (error) {
-    console.error("❌ DB: Error fetching last recommendations:", error);
+    return rows.map((row) => row.email);
+  } catch (error) {
+    console.error("Error fetching weekly digest candidates:", error);
+    return [];
+  }
+}
+
+// The newest completed digest the user hasn't opened yet
+export async function getUnseenWeeklyDigest(userEmail: string) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .select()
+      .from(recommendationRuns)
+      .where(
+        and(
+          eq(recommendationRuns.userId, user.id),
+          eq(recommendationRuns.trigger, "weekly_digest"),
+          eq(recommendationRuns.status, "completed"),
+          isNull(recommendationRuns.seenAt)
+        )
+      )
+      .orderBy(desc(recommendationRuns.createdAt))
+      .limit(1);
+
+    return result[0] ? toRecommendationRun(result[0]) : null;
+  } catch (error) {
+    console.error("Error fetching weekly digest:", error);
+    return null;
+  }
+}
+
+// Opening the newest digest counts as having seen every older one too
+export async function markWeeklyDigestsSeen(userEmail: string) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return false;
+
+    await db
+      .update(recommendationRuns)
+      .set({ seenAt: new Date() })
+      .where(
+        and(
+          eq(recommendationRuns.userId, user.id),
+          eq(recommendationRuns.trigger, "weekly_digest"),
+          isNull(recommendationRuns.seenAt)
+        )
+      );
+
+    return true;
+  } catch (error) {
+    console.error("Error marking weekly digests seen:", error);
+    return false;
+  }
+}
+
+// Recommendation job operations
+// Jobs are queued by POST /api/recommend and processed by the worker in
+// lib/recommendations/jobs
+
+const toRecommendationJob = (row: RecommendationJobRow): RecommendationJob => ({
+  id: row.id,
+  status: row.status,
+  stage: row.stage,
+  request: row.request,
+  runId: row.runId,
+  results: row.results,
+  error: row.error,
+  attempts: row.attempts,
+  createdAt: row.createdAt.toISOString(),
+  startedAt: row.startedAt?.toISOString() || null,
+  finishedAt: row.finishedAt?.toISOString() || null,
+});
+
+export async function createRecommendationJob(
+  userEmail: string,
+  request: RecommendationJobRequest
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .insert(recommendationJobs)
+      .values({ userId: user.id, request })
+      .returning();
+
+    return toRecommendationJob(result[0]);
+  } catch (error) {
+    console.error("Error creating recommendation job:", error);
+    return null;
+  }
+}
+
+export async function getRecommendationJob(userEmail: string, jobId: string) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const result = await db
+      .select()
+      .from(recommendationJobs)
+      .where(
+        and(
+          eq(recommendationJobs.id, jobId),
+          eq(recommendationJobs.userId, user.id)
+        )
+      )
+      .limit(1);
+
+    return result[0] ? toRecommendationJob(result[0]) : null;
+  } catch (error) {
+    console.error("Error fetching recommendation job:", error);
+    return null;
+  }
+}
+
+// Claim the oldest queued job, or a running one whose lock is older than
+// staleBefore. SKIP LOCKED lets several workers claim jobs side by side
+// without taking the same one. With jobId, only that job is claimed
+export async function claimRecommendationJob(
+  staleBefore: Date,
+  jobId?: string
+) {
+  try {
+    const next = db
+      .select({ id: recommendationJobs.id })
+      .from(recommendationJobs)
+      .where(
+        and(
+          jobId ? eq(recommendationJobs.id, jobId) : undefined,
+          or(
+            eq(recommendationJobs.status, "queued"),
+            and(
+              eq(recommendationJobs.status, "running"),
+              lt(recommendationJobs.lockedAt, staleBefore)
+            )
+          )
+        )
+      )
+      .orderBy(asc(recommendationJobs.createdAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const result = await db
+      .update(recommendationJobs)
+      .set({
+        status: "running",
+        attempts: sql`${recommendationJobs.attempts} + 1`,
+        lockedAt: new Date(),
+        startedAt: sql`coalesce(${recommendationJobs.startedAt}, now())`,
+      })
+      .where(inArray(recommendationJobs.id, next))
+      .returning();
+
+    const job = result[0];
+    if (!job) return null;
+
+    const user = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(eq(users.id, job.userId))
+      .limit(1);
+
+    return user[0]
+      ? { job: toRecommendationJob(job), userEmail: user[0].email }
+      : null;
+  } catch (error) {
+    console.error("Error claiming recommendation job:", error);
+    return null;
+  }
+}
+
+// Progress and outcome updates from the worker that holds the job
+export async function updateRecommendationJob(
+  jobId: string,
+  update: Partial<
+    Pick<
+      RecommendationJobRow,
+      "status" | "stage" | "runId" | "results" | "error" | "finishedAt"
+    >
+  >
+) {
+  try {
+    await db
+      .update(recommendationJobs)
+      .set(update)
+      .where(eq(recommendationJobs.id, jobId));
+  } catch (error) {
+    console.error("Error updating recommendation job:", error);
+  }
+}
+
+// LLM call telemetry
+// Written by lib/recommendations/telemetry, summarized for admins
+
+export async function recordLLMCall(
+  userEmail: string,
+  call: Omit<NewLLMCall, "id" | "userId" | "createdAt">
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    await db.insert(llmCalls).values({ ...call, userId: user?.id ?? null });
+  } catch (error) {
+    console.error("Error recording LLM call:", error);
+  }
+}
+
+// Totals per day (oldest first) and per user (most expensive first)
+export async function getLLMUsageSummary(
+  since: Date
+): Promise<LLMUsageSummary | null> {
+  const totals = {
+    calls: sql`count(*)`.mapWith(Number),
+    promptTokens: sql`coalesce(sum(${llmCalls.promptTokens}), 0)`.mapWith(
+      Number
+    ),
+    completionTokens:
+      sql`coalesce(sum(${llmCalls.completionTokens}), 0)`.mapWith(Number),
+    costUsd: sql`coalesce(sum(${llmCalls.costUsd}), 0)`.mapWith(Number),
+    avgLatencyMs: sql`coalesce(round(avg(${llmCalls.latencyMs})), 0)`.mapWith(
+      Number
+    ),
+    partial:
+      sql`count(*) filter (where ${llmCalls.outcome} = 'partial')`.mapWith(
+        Number
+      ),
+    failed: sql`count(*) filter (where ${llmCalls.outcome} = 'failed')`.mapWith(
+      Number
+    ),
+  };
+  const day = sql<string>`to_char(date_trunc('day', ${llmCalls.createdAt}), 'YYYY-MM-DD')`;
+
+  try {
+    const [byDay, byUser] = await Promise.all([
+      db
+        .select({ day, ...totals })
+        .from(llmCalls)
+        .where(gte(llmCalls.createdAt, since))
+        .groupBy(day)
+        .orderBy(day),
+      db
+        .select({ userId: llmCalls.userId, email: users.email, ...totals })
+        .from(llmCalls)
+        .leftJoin(users, eq(llmCalls.userId, users.id))
+        .where(gte(llmCalls.createdAt, since))
+        .groupBy(llmCalls.userId, users.email)
+        .orderBy(desc(totals.costUsd), desc(totals.calls)),
+    ]);
+
+    return { since: since.toISOString(), byDay, byUser };
+  } catch (error) {
+    console.error("Error summarizing LLM usage:", error);
+    return null;
+  }
+}
+
+// Recommendation usage operations
+// Read and written by the quota in lib/recommendations/quota
+
+export async function recordRecommendationUsage(
+  userId: string,
+  kind: RecommendationUsageKind
+) {
+  try {
+    const result = await db
+      .insert(recommendationUsage)
+      .values({ userId, kind })
+      .returning();
+
+    return result[0];
+  } catch (error) {
+    console.error("Error recording recommendation usage:", error);
+    return null;
+  }
+}
+
+// Usage since the given time, newest first
+export async function getRecommendationUsageSince(userId: string, since: Date) {
+  try {
+    return await db
+      .select({
+        id: recommendationUsage.id,
+        createdAt: recommendationUsage.createdAt,
+      })
+      .from(recommendationUsage)
+      .where(
+        and(
+          eq(recommendationUsage.userId, userId),
+          gte(recommendationUsage.createdAt, since)
+        )
+      )
+      .orderBy(desc(recommendationUsage.createdAt));
+  } catch (error) {
+    console.error("Error fetching recommendation usage:", error);
+    return [];
+  }
+}
+
+export async function deleteRecommendationUsage(id: string) {
+  try {
+    await db.delete(recommendationUsage).where(eq(recommendationUsage.id, id));
+  } catch (error) {
+    console.error("Error deleting recommendation usage:", error);
+  }
+}
+
+// Past recommendations older than this many rows may be recommended again
+const PAST_RECOMMENDATION_LIMIT = 500;
+
+// Build the user's movie history for recommendations from the database
+// Joins ratings, want-to-watch, watch history and past recommendations with the
+// movies cache so the prompt gets real titles instead of whatever the client
+// happens to hold
+export async function getUserMovieHistory(
+  userEmail: string
+): Promise<UserMovieHistory | null> {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const [
+      ratingRows,
+      wantToWatchRows,
+      watchHistoryRows,
+      recommendationRows,
+      feedbackRows,
+    ] = await Promise.all([
+      db
+        .select({
+          movieId: userRatings.movieId,
+          rating: userRatings.rating,
+          ratedAt: userRatings.ratedAt,
+          title: movies.title,
+          releaseDate: movies.releaseDate,
+        })
+        .from(userRatings)
+        .innerJoin(movies, eq(userRatings.movieId, movies.id))
+        .where(eq(userRatings.userId, user.id))
+        .orderBy(desc(userRatings.rating)),
+      db
+        .select({
+          movieId: wantToWatch.movieId,
+          addedAt: wantToWatch.addedAt,
+          movieTitle: wantToWatch.movieTitle,
+          posterPath: wantToWatch.posterPath,
+          releaseDate: wantToWatch.releaseDate,
+          title: movies.title,
+        })
+        .from(wantToWatch)
+        .innerJoin(movies, eq(wantToWatch.movieId, movies.id))
+        .where(eq(wantToWatch.userId, user.id))
+        .orderBy(wantToWatch.addedAt),
+      db
+        .select({
+          movieId: watchHistory.movieId,
+          watchedAt: watchHistory.watchedAt,
+          rating: watchHistory.rating,
+          title: movies.title,
+        })
+        .from(watchHistory)
+        .innerJoin(movies, eq(watchHistory.movieId, movies.id))
+        .where(eq(watchHistory.userId, user.id))
+        .orderBy(desc(watchHistory.watchedAt)),
+      db
+        .select({
+          movieId: recommendations.movieId,
+          updatedAt: recommendations.updatedAt,
+          feedback: recommendations.feedback,
+          title: movies.title,
+        })
+        .from(recommendations)
+        .innerJoin(movies, eq(recommendations.movieId, movies.id))
+        .where(eq(recommendations.userId, user.id))
+        .orderBy(desc(recommendations.updatedAt))
+        .limit(PAST_RECOMMENDATION_LIMIT),
+      db
+        .select({
+          movieId: recommendations.movieId,
+          updatedAt: recommendations.updatedAt,
+          feedback: recommendations.feedback,
+          title: movies.title,
+        })
+        .from(recommendations)
+        .innerJoin(movies, eq(recommendations.movieId, movies.id))
+        .where(
+          and(
+            eq(recommendations.userId, user.id),
+            isNotNull(recommendations.feedback)
+          )
+        )
+        .orderBy(desc(recommendations.feedbackAt)),
+    ]);
+
+    return {
+      userId: user.id,
+      ratedMovies: ratingRows.map((row) => ({
+        id: row.movieId,
+        title: row.title,
+        rating: row.rating,
+        ratedAt: row.ratedAt.toISOString(),
+        release_date: row.releaseDate || undefined,
+      })),
+      wantToWatchList: wantToWatchRows.map((row) => ({
+        id: row.movieId,
+        title: isPlaceholderTitle(row.title)
+          ? row.movieTitle || row.title
+          : row.title,
+        poster_path: row.posterPath,
+        release_date: row.releaseDate || undefined,
+        addedAt: row.addedAt.toISOString(),
+      })),
+      watchedMovies: watchHistoryRows.map((row) => ({
+        id: row.movieId,
+        title: row.title,
+        rating: row.rating ?? undefined,
+        watchedAt: row.watchedAt.toISOString(),
+      })),
+      pastRecommendations: recommendationRows.map((row) => ({
+        id: row.movieId,
+        title: row.title,
+        recommendedAt: row.updatedAt.toISOString(),
+        feedback: row.feedback || undefined,
+      })),
+      recommendationFeedback: feedbackRows.map((row) => ({
+        id: row.movieId,
+        title: row.title,
+        recommendedAt: row.updatedAt.toISOString(),
+        feedback: row.feedback as RecommendationFeedback,
+      })),
+      favoriteGenres: user.preferences?.favoriteGenres || [],
+    };
+  } catch (error) {
+    console.error("Error fetching user movie history:", error);
+    return null;
+  }
+}
+
+// Look up cached titles for a set of movie ids, skipping placeholder titles
+export async function getMovieTitles(movieIds: number[]) {
+  if (movieIds.length === 0) return [];
+
+  try {
+    const rows = await db
+      .select({ id: movies.id, title: movies.title })
+      .from(movies)
+      .where(inArray(movies.id, movieIds));
+
+    return rows.filter((row) => !isPlaceholderTitle(row.title));
+  } catch (error) {
+    console.error("Error fetching movie titles:", error);
+    return [];
+  }
+}
+
+// Onboarding: the genres picked so far and how many movies the user has rated
+export async function getOnboardingProfile(userEmail: string) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return null;
+
+    const [{ ratedCount }] = await db
+      .select({ ratedCount: sql`count(*)`.mapWith(Number) })
+      .from(userRatings)
+      .where(eq(userRatings.userId, user.id));
+
+    return {
+      favoriteGenres: user.preferences?.favoriteGenres || [],
+      ratedCount,
+    };
+  } catch (error) {
+    console.error("Error fetching onboarding profile:", error);
+    return null;
+  }
+}
+
+// Other preferences are kept as they are
+export async function saveFavoriteGenres(
+  userEmail: string,
+  genreIds: number[]
+) {
+  try {
+    const user = await getUserByEmail(userEmail);
+    if (!user) return false;
+
+    await db
+      .update(users)
+      .set({
+        preferences: { ...user.preferences, favoriteGenres: genreIds },
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+
+    return true;
+  } catch (error) {
+    console.error("Error saving favorite genres:", error);
+    return false;
+  }
+}
+
+// TMDB details cache: the cached row for a movie, or null when there is none
+export async function getCachedMovie(movieId: number) {
+  try {
+    const [movie] = await db
+      .select()
+      .from(movies)
+      .where(eq(movies.id, movieId))
+      .limit(1);
+
+    return movie || null;
+  } catch (error) {
+    console.error("Error fetching cached movie:", error);
+    return null;
+  }
+}
+
+export async function getCachedMovies(movieIds: number[]) {
+  if (movieIds.length === 0) return [];
+
+  try {
+    return await db.select().from(movies).where(inArray(movies.id, movieIds));
+  } catch (error) {
+    console.error("Error fetching cached movies:", error);
     return [];
   }
 }
+
+// Budgets and revenues past 2^31 don't fit the integer columns; the full
+// values stay in the details payload
+const toInteger = (value?: number) =>
+  value !== undefined && value <= 2147483647 ? value : null;
+
+// Insert or refresh a movie from its TMDB detail payload
+export async function saveMovieDetails(movie: TMDBMovie) {
+  try {
+    const values = {
+      title: movie.title,
+      overview: movie.overview,
+      posterPath: movie.poster_path,
+      backdropPath: movie.backdrop_path,
+      releaseDate: movie.release_date,
+      voteAverage: movie.vote_average,
+      voteCount: movie.vote_count,
+      popularity: movie.popularity,
+      runtime: movie.runtime,
+      status: movie.status,
+      tagline: movie.tagline,
+      budget: toInteger(movie.budget),
+      revenue: toInteger(movie.revenue),
+      genres: movie.genres,
+      productionCompanies: movie.production_companies?.map((company) => ({
+        id: company.id,
+        name: company.name,
+        logoPath: company.logo_path,
+        originCountry: company.origin_country,
+      })),
+      details: movie,
+      lastUpdated: new Date(),
+    };
+
+    await db
+      .insert(movies)
+      .values({ id: movie.id, ...values })
+      .onConflictDoUpdate({ target: movies.id, set: values });
+
+    return true;
+  } catch (error) {
+    console.error("Error saving movie details:", error);
+    return false;
+  }
+}
+
+// Catalog sync: ids among movieIds that are in the movies table
+export async function getCachedMovieIds(movieIds: number[]) {
+  if (movieIds.length === 0) return [];
+
+  try {
+    const rows = await db
+      .select({ id: movies.id })
+      .from(movies)
+      .where(inArray(movies.id, movieIds));
+
+    return rows.map((row) => row.id);
+  } catch (error) {
+    console.error("Error fetching cached movie ids:", error);
+    return [];
+  }
+}
+
+// Interval literal for a MOVIE_CACHE_CONFIG duration
+const toInterval = (ms: number) => sql.raw(`interval '${ms / 1000} seconds'`);
+
+// A movie's release date, or null unless it is a real YYYY-MM-DD date. The
+// date is built from its parts and compared back to the text, so values like
+// 2024-02-31 come out null instead of failing the query
+const releaseDateOf = () => {
+  const part = (start: number, length: number) =>
+    sql`substr(${movies.releaseDate}, ${sql.raw(`${start}, ${length}`)})::int`;
+  const built = sql`(make_date(greatest(${part(1, 4)}, 1), least(greatest(${part(6, 2)}, 1), 12), 1) + (${part(9, 2)} - 1))`;
+
+  // Nested so the parts are only read once the pattern has matched
+  return sql`(case when ${movies.releaseDate} ~ '^\\d{4}-\\d{2}-\\d{2}$' then
+    case when to_char(${built}, 'YYYY-MM-DD') = ${movies.releaseDate} then ${built} end
+  end)`;
+};
+
+// The movie-cache TTL tiers in SQL (see getTTL in lib/movie-cache); a missing
+// or malformed release date counts as recent
+const movieCacheTTL = () => {
+  const released = releaseDateOf();
+
+  return sql`case
+    when ${released} is null
+      or ${released} > now() - ${toInterval(MOVIE_CACHE_CONFIG.RECENT_RELEASE_AGE)}
+      then ${toInterval(MOVIE_CACHE_CONFIG.RECENT_TTL)}
+    when ${released} > now() - ${toInterval(MOVIE_CACHE_CONFIG.CATALOG_RELEASE_AGE)}
+      then ${toInterval(MOVIE_CACHE_CONFIG.CATALOG_TTL)}
+    else ${toInterval(MOVIE_CACHE_CONFIG.ARCHIVE_TTL)}
+  end`;
+};
+
+// Placeholder rows (no details payload) and rows past their TTL, least
+// recently updated first, so a row that keeps failing goes to the back once
+// it is marked (see markMovieSynced). Fresh rows are left out before the
+// limit so they can't crowd out the ones that are due
+export async function getMoviesDueForSync(limit: number) {
+  try {
+    return await db
+      .select({
+        id: movies.id,
+        isPlaceholder: isNull(movies.details).mapWith(Boolean),
+      })
+      .from(movies)
+      .where(
+        or(
+          isNull(movies.details),
+          sql`${movies.lastUpdated} < now() - ${movieCacheTTL()}`
+        )
+      )
+      .orderBy(asc(movies.lastUpdated))
+      .limit(limit);
+  } catch (error) {
+    console.error("Error fetching movies due for sync:", error);
+    return [];
+  }
+}
+
+// Moves a movie to the back of the sync queue without changing its data
+export async function markMovieSynced(movieId: number) {
+  try {
+    await db
+      .update(movies)
+      .set({ lastUpdated: new Date() })
+      .where(eq(movies.id, movieId));
+  } catch (error) {
+    console.error("Error marking movie synced:", error);
+  }
+}
+
+// Deleting a movie cascades to ratings, want-to-watch entries,
+// recommendations and watch history, so only unreferenced movies go
+export async function deleteUnreferencedMovie(movieId: number) {
+  try {
+    const deleted = await db
+      .delete(movies)
+      .where(
+        and(
+          eq(movies.id, movieId),
+          notExists(
+            db
+              .select({ id: userRatings.id })
+              .from(userRatings)
+              .where(eq(userRatings.movieId, movieId))
+          ),
+          notExists(
+            db
+              .select({ id: wantToWatch.id })
+              .from(wantToWatch)
+              .where(eq(wantToWatch.movieId, movieId))
+          ),
+          notExists(
+            db
+              .select({ id: recommendations.id })
+              .from(recommendations)
+              .where(eq(recommendations.movieId, movieId))
+          ),
+          notExists(
+            db
+              .select({ id: watchHistory.id })
+              .from(watchHistory)
+              .where(eq(watchHistory.movieId, movieId))
+          )
+        )
+      )
+      .returning({ id: movies.id });
+
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Error deleting movie:", error);
+    return false;
+  }
+}
+
+// The latest sync that got through TMDB's changes feed
+export async function getLastCatalogSync() {
+  try {
+    const [run] = await db
+      .select()
+      .from(catalogSyncRuns)
+      .where(isNotNull(catalogSyncRuns.changesUntil))
+      .orderBy(desc(catalogSyncRuns.startedAt))
+      .limit(1);
+
+    return run || null;
+  } catch (error) {
+    console.error("Error fetching last catalog sync:", error);
+    return null;
+  }
+}
+
+export async function hasRunningCatalogSync(startedAfter: Date) {
+  try {
+    const [run] = await db
+      .select({ id: catalogSyncRuns.id })
+      .from(catalogSyncRuns)
+      .where(
+        and(
+          eq(catalogSyncRuns.status, "running"),
+          gt(catalogSyncRuns.startedAt, startedAfter)
+        )
+      )
+      .limit(1);
+
+    return !!run;
+  } catch (error) {
+    console.error("Error checking for a running catalog sync:", error);
+    return false;
+  }
+}
+
+export async function createCatalogSyncRun(changesFrom: Date) {
+  try {
+    const [run] = await db
+      .insert(catalogSyncRuns)
+      .values({ changesFrom })
+      .returning();
+
+    return run;
+  } catch (error) {
+    console.error("Error creating catalog sync run:", error);
+    return null;
+  }
+}
+
+export async function finishCatalogSyncRun(
+  runId: string,
+  values: Pick<
+    NewCatalogSyncRun,
+    | "status"
+    | "changesUntil"
+    | "changed"
+    | "updated"
+    | "failed"
+    | "removed"
+    | "error"
+  >
+) {
+  try {
+    await db
+      .update(catalogSyncRuns)
+      .set({ ...values, finishedAt: new Date() })
+      .where(eq(catalogSyncRuns.id, runId));
+  } catch (error) {
+    console.error("Error finishing catalog sync run:", error);
+  }
+}
@@ -1,4 +1,4 @@
-export { searchMovies, type TMDBMovie, type TMDBResponse } from "./tmdb";
+export type { TMDBMovie, TMDBResponse } from "./tmdb";
 export { getPopularMovies, getMovieDetails } from "./api";
 export { handleApiError } from "./errorHandling";
 export { API_CONFIG, CACHE_CONFIG } from "./constants";
@@ -0,0 +1,110 @@
+import { MOVIE_CACHE_CONFIG } from "./constants";
+import { getCachedMovie, getCachedMovies, saveMovieDetails } from "./db-utils";
+import type { TMDBMovie } from "./tmdb";
+import { getMovieDetails, TMDBError } from "./tmdb-client";
+import { mapWithConcurrency } from "./utils";
+
+// Read-through cache of TMDB movie details, backed by the movies table
+// A detail lookup is served from the cached row while it is fresh. Missing,
+// placeholder (no details payload) and stale rows are fetched from TMDB and
+// written back. When TMDB fails, a stale row is served rather than nothing
+//
+// USAGE: API routes, Server Components
+// NEVER IMPORT IN CLIENT COMPONENTS
+
+// The extras stored with each movie
+const DETAILS_APPEND = "credits,videos,release_dates";
+// TMDB requests in flight for a batch's cache misses
+const TMDB_CONCURRENCY = 5;
+
+type CachedMovie = NonNullable<Awaited<ReturnType<typeof getCachedMovie>>>;
+
+// Movies with no usable release date are treated as recent. The catalog sync
+// applies the same tiers in SQL (getMoviesDueForSync in lib/db-utils)
+const getTTL = (releaseDate?: string | null) => {
+  const released = releaseDate ? Date.parse(releaseDate) : NaN;
+  const age = isNaN(released) ? 0 : Date.now() - released;
+
+  if (age < MOVIE_CACHE_CONFIG.RECENT_RELEASE_AGE) {
+    return MOVIE_CACHE_CONFIG.RECENT_TTL;
+  }
+  if (age < MOVIE_CACHE_CONFIG.CATALOG_RELEASE_AGE) {
+    return MOVIE_CACHE_CONFIG.CATALOG_TTL;
+  }
+  return MOVIE_CACHE_CONFIG.ARCHIVE_TTL;
+};
+
+const isPastTTL = (lastUpdated: Date, releaseDate?: string | null) =>
+  Date.now() - lastUpdated.getTime() > getTTL(releaseDate);
+
+export const isMovieStale = (movie: CachedMovie) =>
+  !movie.details || isPastTTL(movie.lastUpdated, movie.releaseDate);
+
+export const isNotFound = (error: unknown) =>
+  error instanceof TMDBError && error.status === 404;
+
+// The TMDB request behind a cached row
+export const fetchMovieDetailsForCache = (movieId: number) =>
+  getMovieDetails(movieId, { appendToResponse: DETAILS_APPEND });
+
+// Fetch a missing or stale movie from TMDB and write it back
+const refreshMovie = async (
+  movieId: number,
+  cached: CachedMovie | null
+): Promise<TMDBMovie> => {
+  try {
+    const movie = await fetchMovieDetailsForCache(movieId);
+    await saveMovieDetails(movie);
+    return movie;
+  } catch (error) {
+    // A movie TMDB no longer has isn't served from the cache
+    if (cached?.details && !isNotFound(error)) {
+      console.warn(`Serving stale details for movie ${movieId}:`, error);
+      return cached.details;
+    }
+    throw error;
+  }
+};
+
+export const getCachedMovieDetails = async (
+  movieId: number
+): Promise<TMDBMovie> => {
+  const cached = await getCachedMovie(movieId);
+  if (cached?.details && !isMovieStale(cached)) return cached.details;
+  return refreshMovie(movieId, cached);
+};
+
+// One cache query for the whole batch; only the misses go to TMDB. A movie
+// that can't be loaded gets an entry in errors instead of failing the batch
+export const getCachedMovieDetailsBatch = async (movieIds: number[]) => {
+  const cached = new Map(
+    (await getCachedMovies(movieIds)).map((movie) => [movie.id, movie])
+  );
+  const movies: Record<number, TMDBMovie> = {};
+  const errors: Record<number, string> = {};
+  const misses: number[] = [];
+
+  for (const movieId of movieIds) {
+    const movie = cached.get(movieId);
+    if (movie?.details && !isMovieStale(movie)) {
+      movies[movieId] = movie.details;
+    } else {
+      misses.push(movieId);
+    }
+  }
+
+  await mapWithConcurrency(misses, TMDB_CONCURRENCY, async (movieId) => {
+    try {
+      movies[movieId] = await refreshMovie(
+        movieId,
+        cached.get(movieId) || null
+      );
+    } catch (error) {
+      errors[movieId] = isNotFound(error)
+        ? "Movie not found"
+        : "Failed to fetch movie details";
+    }
+  });
+
+  return { movies, errors };
+};
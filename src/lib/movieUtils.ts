@@ -10,6 +10,11 @@ export const getPosterUrl = (
   return `https://image.tmdb.org/t/p/${size}${posterPath}`;
 };
 
+// Placeholder titles are written when a movie is cached without TMDB data
+// (e.g. "Movie 123"), so they shouldn't be shown or sent to the model as real titles
+export const isPlaceholderTitle = (title: string | null | undefined): boolean =>
+  !title || /^Movie \d+$/.test(title);
+
 export const formatRuntime = (minutes: number): string => {
   const hours = Math.floor(minutes / 60);
   const remainingMinutes = minutes % 60;
@@ -0,0 +1,211 @@
+import { RecommendationConstraints, UserMovieHistory } from "@/types/movie";
+import { isPlaceholderTitle } from "@/lib/movieUtils";
+import { mapWithConcurrency } from "@/lib/utils";
+import {
+  buildConstraintDiscoverParams,
+  findConstraintViolation,
+  getDetailsOptions,
+  hasConstraints,
+  matchesListConstraints,
+} from "./constraints";
+import { adventureBonus } from "./diversity";
+import { scoreCandidate, type MatchScore } from "./scoring";
+import type { TasteProfile } from "./taste";
+import {
+  discoverMovies,
+  getMovieDetails,
+  getMovieRecommendations,
+  getSimilarMovies,
+  type TMDBListMovie,
+  type TMDBMovieDetails,
+} from "./tmdb";
+
+// Candidate generation for the two-stage recommender
+// Stage 1 collects real TMDB movies related to the user's favorites
+// (TMDB recommendations and similar titles) plus well-rated movies from their
+// favorite genres, rated or picked during onboarding. Stage 2 ranks them with
+// the taste scorer: a cheap pass on list data, then a full pass with credits
+// for a shortlist only.
+// Request constraints filter both stages (see constraints.ts); the final
+// batch is picked from the ranked shortlist in diversity.ts.
+
+const MAX_SEEDS = 5;
+const SEED_MIN_RATING = 7;
+const MAX_DISCOVER_GENRES = 3;
+const DISCOVER_MIN_VOTES = 500;
+// How many candidates per requested recommendation get a full details lookup
+const SHORTLIST_FACTOR = 3;
+// Constrained requests lose more of the shortlist to the details check
+const CONSTRAINED_SHORTLIST_FACTOR = 6;
+const TMDB_CONCURRENCY = 5;
+
+type Seed = { title: string; rating?: number };
+
+// A movie whose TMDB recommendations and similar titles become candidates
+export interface SeedMovie extends Seed {
+  id: number;
+}
+
+export interface Candidate {
+  movie: TMDBListMovie;
+  seeds: Seed[];
+}
+
+export interface RankedCandidate {
+  movie: TMDBMovieDetails;
+  seeds: Seed[];
+  match: MatchScore;
+}
+
+interface GenerateCandidatesOptions {
+  history: UserMovieHistory;
+  profile: TasteProfile;
+  excludeIds: Set<number>;
+  constraints?: RecommendationConstraints;
+  // Replace the user's top-rated movies as seeds ("more like this one")
+  seedMovies?: SeedMovie[];
+}
+
+export const generateCandidates = async ({
+  history,
+  profile,
+  excludeIds,
+  constraints = {},
+  seedMovies,
+}: GenerateCandidatesOptions): Promise<Candidate[]> => {
+  // ratedMovies is already ordered by rating, highest first
+  const seeds: SeedMovie[] = (
+    seedMovies?.length
+      ? seedMovies
+      : history.ratedMovies.filter((movie) => movie.rating >= SEED_MIN_RATING)
+  ).slice(0, MAX_SEEDS);
+
+  // Rated genres first; genres picked during onboarding fill the gaps
+  const favoriteGenres = [
+    ...new Set([
+      ...Array.from(profile.genres.entries())
+        .filter(([, affinity]) => affinity.score > 0)
+        .sort(([, a], [, b]) => b.score - a.score)
+        .map(([id]) => id),
+      ...history.favoriteGenres,
+    ]),
+  ].slice(0, MAX_DISCOVER_GENRES);
+
+  const sources: Array<
+    () => Promise<{ movies: TMDBListMovie[]; seed?: Seed }>
+  > = [
+    ...seeds.flatMap((movie) => {
+      // Placeholder titles still find candidates, but can't explain them
+      const seed = isPlaceholderTitle(movie.title)
+        ? undefined
+        : { title: movie.title, rating: movie.rating };
+      return [
+        async () => ({ movies: await getMovieRecommendations(movie.id), seed }),
+        async () => ({ movies: await getSimilarMovies(movie.id), seed }),
+      ];
+    }),
+    ...favoriteGenres.map((genreId) => async () => ({
+      movies: await discoverMovies({
+        ...buildConstraintDiscoverParams(constraints),
+        with_genres: genreId,
+        sort_by: "vote_average.desc",
+        "vote_count.gte": DISCOVER_MIN_VOTES,
+      }),
+    })),
+  ];
+
+  // Seed lists ignore constraints, so make sure matching movies are in the pool
+  if (hasConstraints(constraints)) {
+    sources.push(async () => ({
+      movies: await discoverMovies({
+        ...buildConstraintDiscoverParams(constraints, { withGenres: true }),
+        sort_by: "vote_average.desc",
+        "vote_count.gte": DISCOVER_MIN_VOTES,
+      }),
+    }));
+  }
+
+  const results = await mapWithConcurrency(sources, TMDB_CONCURRENCY, (load) =>
+    load()
+  );
+
+  const candidates = new Map<number, Candidate>();
+  for (const { movies, seed } of results) {
+    for (const movie of movies) {
+      if (excludeIds.has(movie.id)) continue;
+      if (!matchesListConstraints(movie, constraints)) continue;
+
+      const candidate = candidates.get(movie.id) || { movie, seeds: [] };
+      if (seed && !candidate.seeds.some((s) => s.title === seed.title)) {
+        candidate.seeds.push(seed);
+      }
+      candidates.set(movie.id, candidate);
+    }
+  }
+
+  return Array.from(candidates.values());
+};
+
+interface RankCandidatesOptions {
+  profile: TasteProfile;
+  candidates: Candidate[];
+  count: number;
+  constraints?: RecommendationConstraints;
+}
+
+// The whole detailed shortlist, best first, so there is room to diversify
+export const rankCandidates = async ({
+  profile,
+  candidates,
+  count,
+  constraints = {},
+}: RankCandidatesOptions): Promise<RankedCandidate[]> => {
+  // Cheap pass: list endpoints only carry genre ids, no credits or runtime
+  const shortlist = candidates
+    .map((candidate) => ({
+      candidate,
+      score:
+        scoreCandidate(profile, {
+          ...candidate.movie,
+          genres: candidate.movie.genre_ids.map((id) => ({ id })),
+          directors: [],
+          cast: [],
+          releaseYear: candidate.movie.release_date
+            ? parseInt(candidate.movie.release_date.slice(0, 4), 10)
+            : undefined,
+          seeds: candidate.seeds,
+        }).score +
+        // Adventurous users get more hidden gems into the shortlist
+        adventureBonus(candidate.movie.vote_count, constraints.adventurousness),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(
+      0,
+      count *
+        (hasConstraints(constraints)
+          ? CONSTRAINED_SHORTLIST_FACTOR
+          : SHORTLIST_FACTOR)
+    );
+
+  const ranked = await mapWithConcurrency(
+    shortlist,
+    TMDB_CONCURRENCY,
+    async ({ candidate }): Promise<RankedCandidate | null> => {
+      const movie = await getMovieDetails(
+        candidate.movie.id,
+        getDetailsOptions(constraints)
+      );
+      if (!movie || findConstraintViolation(movie, constraints)) return null;
+
+      return {
+        movie,
+        seeds: candidate.seeds,
+        match: scoreCandidate(profile, { ...movie, seeds: candidate.seeds }),
+      };
+    }
+  );
+
+  return ranked
+    .filter((entry): entry is RankedCandidate => entry !== null)
+    .sort((a, b) => b.match.score - a.match.score);
+};
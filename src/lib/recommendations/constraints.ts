@@ -0,0 +1,284 @@
+import type {
+  RecommendationConstraints,
+  RecommendationMood,
+} from "@/types/movie";
+import { API_CONFIG } from "@/lib/constants";
+import type { TMDBListMovie, TMDBMovieDetails } from "./tmdb";
+
+// Steering constraints for a single recommendation request
+// They narrow the TMDB candidate pool up front, and every pick is checked
+// against its resolved TMDB details before it is returned, so a movie that
+// breaks a constraint never reaches the user - whether TMDB or the model
+// suggested it
+
+// Streaming availability is checked for this region
+export const STREAMING_REGION = API_CONFIG.DEFAULT_REGION;
+
+// TMDB movie genres by name
+export const MOVIE_GENRES = {
+  Action: 28,
+  Adventure: 12,
+  Animation: 16,
+  Comedy: 35,
+  Crime: 80,
+  Documentary: 99,
+  Drama: 18,
+  Family: 10751,
+  Fantasy: 14,
+  History: 36,
+  Horror: 27,
+  Music: 10402,
+  Mystery: 9648,
+  Romance: 10749,
+  "Science Fiction": 878,
+  Thriller: 53,
+  War: 10752,
+  Western: 37,
+} as const;
+
+export type MovieGenreName = keyof typeof MOVIE_GENRES;
+
+export const GENRE_NAMES = Object.keys(MOVIE_GENRES) as [
+  MovieGenreName,
+  ...MovieGenreName[],
+];
+
+const genreNames = (ids: number[]) =>
+  ids
+    .map(
+      (id) =>
+        GENRE_NAMES.find((name) => MOVIE_GENRES[name] === id) || `genre ${id}`
+    )
+    .join(", ");
+
+// TMDB genre ids; a movie fits a mood when it has any of them
+const MOOD_GENRES: Record<RecommendationMood, number[]> = {
+  feel_good: [35, 10751, 16, 10402], // Comedy, Family, Animation, Music
+  funny: [35], // Comedy
+  thrilling: [53, 28, 80], // Thriller, Action, Crime
+  dark: [80, 9648, 53, 27], // Crime, Mystery, Thriller, Horror
+  thought_provoking: [18, 878, 99], // Drama, Science Fiction, Documentary
+  romantic: [10749], // Romance
+  scary: [27], // Horror
+  epic: [12, 14, 36, 10752], // Adventure, Fantasy, History, War
+};
+
+const MOOD_LABELS: Record<RecommendationMood, string> = {
+  feel_good: "feel-good",
+  funny: "funny",
+  thrilling: "thrilling",
+  dark: "dark",
+  thought_provoking: "thought-provoking",
+  romantic: "romantic",
+  scary: "scary",
+  epic: "epic",
+};
+
+// Family-friendly: a family or animated movie without horror, thriller,
+// crime or war
+const KIDS_GENRES = [10751, 16];
+const NOT_FOR_KIDS_GENRES = [27, 53, 80, 10752];
+
+const lastYear = (decadeTo: number) => decadeTo + 9;
+
+export const hasConstraints = (constraints?: RecommendationConstraints) =>
+  !!constraints &&
+  Object.entries(constraints).some(
+    ([key, value]) =>
+      value !== undefined &&
+      value !== false &&
+      // Adventurousness reorders candidates, it never rules any out
+      key !== "adventurousness" &&
+      !(key === "audience" && value === "solo") &&
+      !(Array.isArray(value) && value.length === 0)
+  );
+
+interface CheckableMovie {
+  genreIds: number[];
+  releaseYear?: number;
+  language?: string;
+  runtime?: number;
+  streamingProviders?: string[];
+}
+
+// Returns why the movie breaks a constraint, or null when it fits
+// Fields missing from the movie are only skipped when `partial` is set
+const findViolation = (
+  movie: CheckableMovie,
+  constraints: RecommendationConstraints,
+  partial: boolean
+): string | null => {
+  const { mood, maxRuntime, decadeFrom, decadeTo, language } = constraints;
+  const hasAny = (ids: number[]) =>
+    ids.some((id) => movie.genreIds.includes(id));
+
+  if (mood && !hasAny(MOOD_GENRES[mood])) {
+    return `not ${MOOD_LABELS[mood]}`;
+  }
+  if (constraints.genres?.length && !hasAny(constraints.genres)) {
+    return `not ${genreNames(constraints.genres)}`;
+  }
+  if (constraints.excludeGenres?.length && hasAny(constraints.excludeGenres)) {
+    return `has an excluded genre (${genreNames(constraints.excludeGenres)})`;
+  }
+  if (
+    constraints.audience === "kids" &&
+    (!hasAny(KIDS_GENRES) || hasAny(NOT_FOR_KIDS_GENRES))
+  ) {
+    return "not family-friendly";
+  }
+
+  if (movie.releaseYear === undefined) {
+    if (!partial && (decadeFrom || decadeTo)) return "unknown release year";
+  } else if (
+    (decadeFrom && movie.releaseYear < decadeFrom) ||
+    (decadeTo && movie.releaseYear > lastYear(decadeTo))
+  ) {
+    return `released in ${movie.releaseYear}`;
+  }
+
+  if (language && movie.language !== language) {
+    if (!partial || movie.language) {
+      return `original language ${movie.language || "unknown"}`;
+    }
+  }
+
+  if (maxRuntime) {
+    if (movie.runtime === undefined) {
+      if (!partial) return "unknown runtime";
+    } else if (movie.runtime > maxRuntime) {
+      return `${movie.runtime} minutes long`;
+    }
+  }
+
+  if (constraints.streamingOnly && !partial) {
+    if (!movie.streamingProviders?.length) return "not on a streaming service";
+  }
+
+  return null;
+};
+
+const parseYear = (releaseDate?: string) =>
+  releaseDate ? parseInt(releaseDate.slice(0, 4), 10) || undefined : undefined;
+
+// Cheap pre-filter for list results (search, similar, discover)
+// Runtime and streaming aren't in list data and are checked later
+export const matchesListConstraints = (
+  movie: TMDBListMovie,
+  constraints: RecommendationConstraints
+) =>
+  findViolation(
+    {
+      genreIds: movie.genre_ids,
+      releaseYear: parseYear(movie.release_date),
+      language: movie.original_language,
+    },
+    constraints,
+    true
+  ) === null;
+
+// Final check against full TMDB details; load them with
+// getMovieDetails(id, getDetailsOptions(constraints)) so streaming is known
+export const findConstraintViolation = (
+  movie: TMDBMovieDetails,
+  constraints: RecommendationConstraints
+) =>
+  findViolation(
+    {
+      genreIds: movie.genres.map((genre) => genre.id),
+      releaseYear: movie.releaseYear,
+      language: movie.original_language,
+      runtime: movie.runtime,
+      streamingProviders: movie.streamingProviders,
+    },
+    constraints,
+    false
+  );
+
+export const getDetailsOptions = (constraints?: RecommendationConstraints) =>
+  constraints?.streamingOnly ? { watchRegion: STREAMING_REGION } : {};
+
+// TMDB discover parameters that ask for constraint-matching movies up front
+// withGenres adds the requested, mood or family genres; leave it off when the caller
+// filters by its own genre
+export const buildConstraintDiscoverParams = (
+  constraints: RecommendationConstraints,
+  { withGenres = false }: { withGenres?: boolean } = {}
+): Record<string, string | number> => {
+  const { mood, maxRuntime, decadeFrom, decadeTo, language } = constraints;
+  const params: Record<string, string | number> = {};
+
+  if (withGenres && constraints.audience === "kids") {
+    params.with_genres = KIDS_GENRES.join("|");
+  } else if (withGenres && constraints.genres?.length) {
+    params.with_genres = constraints.genres.join("|");
+  } else if (withGenres && mood) {
+    params.with_genres = MOOD_GENRES[mood].join("|");
+  }
+  const withoutGenres = [
+    ...(constraints.audience === "kids" ? NOT_FOR_KIDS_GENRES : []),
+    ...(constraints.excludeGenres || []),
+  ];
+  if (withoutGenres.length > 0) {
+    params.without_genres = withoutGenres.join(",");
+  }
+  if (constraints.audience === "kids") {
+    params.certification_country = "US";
+    params["certification.lte"] = "PG";
+  }
+  if (decadeFrom) params["primary_release_date.gte"] = `${decadeFrom}-01-01`;
+  if (decadeTo) {
+    params["primary_release_date.lte"] = `${lastYear(decadeTo)}-12-31`;
+  }
+  if (maxRuntime) params["with_runtime.lte"] = maxRuntime;
+  if (language) params.with_original_language = language;
+  if (constraints.streamingOnly) {
+    params.watch_region = STREAMING_REGION;
+    params.with_watch_monetization_types = "flatrate";
+  }
+
+  return params;
+};
+
+// One line per constraint, for the prompts
+export const describeConstraints = (
+  constraints?: RecommendationConstraints
+): string[] => {
+  if (!constraints) return [];
+
+  const { mood, maxRuntime, decadeFrom, decadeTo, language } = constraints;
+  const lines: string[] = [];
+
+  if (mood) lines.push(`Mood: ${MOOD_LABELS[mood]}`);
+  if (constraints.genres?.length) {
+    lines.push(`Genres: any of ${genreNames(constraints.genres)}`);
+  }
+  if (constraints.excludeGenres?.length) {
+    lines.push(`No ${genreNames(constraints.excludeGenres)} movies`);
+  }
+  if (maxRuntime) lines.push(`At most ${maxRuntime} minutes long`);
+  if (decadeFrom && decadeTo) {
+    lines.push(`Released between ${decadeFrom} and ${lastYear(decadeTo)}`);
+  } else if (decadeFrom) {
+    lines.push(`Released in ${decadeFrom} or later`);
+  } else if (decadeTo) {
+    lines.push(`Released in ${lastYear(decadeTo)} or earlier`);
+  }
+  if (language) {
+    lines.push(`Original language: ${language} (ISO 639-1 code)`);
+  }
+  if (constraints.audience === "kids") {
+    lines.push("Watching with kids: family-friendly movies only");
+  } else if (constraints.audience === "partner") {
+    lines.push("Watching with a partner: something that works as a date night");
+  } else if (constraints.audience === "friends") {
+    lines.push("Watching with friends: crowd-pleasers that are fun in a group");
+  }
+  if (constraints.streamingOnly) {
+    lines.push(
+      `Only movies included with a streaming subscription in the ${STREAMING_REGION}`
+    );
+  }
+
+  return lines;
+};
@@ -0,0 +1,40 @@
+import { ONBOARDING_CONFIG } from "@/lib/constants";
+import { getWeeklyDigestCandidates } from "@/lib/db-utils";
+import { enqueueRecommendationJob, runRecommendationWorker } from "./jobs";
+
+// "Weekly picks": recommendations precomputed for users who come back to find
+// them waiting. The scheduler (/api/recommend/weekly-digest, run by cron)
+// queues a digest job for every active user whose ratings changed since their
+// last run, then works the queue. Like every other generation, digests wait
+// until the user has finished onboarding (MIN_PROFILE_RATINGS ratings). Digest runs are marked with trigger
+// "weekly_digest" and don't count against the user's quota; the newest unseen
+// one shows a "New picks for you" badge in the header
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// At most one digest a week per user
+const DIGEST_INTERVAL_MS = 7 * DAY_MS;
+// Users who haven't rated anything in this long aren't active any more
+const ACTIVE_WINDOW_MS = 30 * DAY_MS;
+// Users queued per scheduler call; the rest are picked up on the next one
+const DIGEST_BATCH_SIZE = 100;
+
+export const scheduleWeeklyDigests = async () => {
+  const now = Date.now();
+  const userEmails = await getWeeklyDigestCandidates({
+    activeSince: new Date(now - ACTIVE_WINDOW_MS),
+    digestBefore: new Date(now - DIGEST_INTERVAL_MS),
+    minRatings: ONBOARDING_CONFIG.MIN_PROFILE_RATINGS,
+    limit: DIGEST_BATCH_SIZE,
+  });
+
+  let queued = 0;
+  for (const userEmail of userEmails) {
+    const job = await enqueueRecommendationJob(userEmail, {
+      trigger: "weekly_digest",
+    });
+    if (job) queued++;
+  }
+
+  const processed = await runRecommendationWorker();
+  return { queued, processed };
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { RankedCandidate } from "./candidates";
+import {
+  adventureBonus,
+  diversifyCandidates,
+  getPopularityTier,
+  labelPick,
+} from "./diversity";
+import { getMatchLevel } from "./scoring";
+
+interface CandidateOptions {
+  id: number;
+  score: number;
+  genres?: number[];
+  directors?: number[];
+  releaseYear?: number;
+  voteCount?: number;
+}
+
+// Same decade and popularity tier unless a test says otherwise, so only the
+// difference under test moves the ordering
+const createCandidate = ({
+  id,
+  score,
+  genres = [],
+  directors = [],
+  releaseYear = 2010,
+  voteCount = 3000,
+}: CandidateOptions): RankedCandidate => ({
+  movie: {
+    id,
+    title: `Movie ${id}`,
+    poster_path: null,
+    release_date: `${releaseYear}-01-01`,
+    vote_average: 7,
+    vote_count: voteCount,
+    genres: genres.map((genre) => ({ id: genre, name: `Genre ${genre}` })),
+    directors: directors.map((director) => ({
+      id: director,
+      name: `Director ${director}`,
+    })),
+    cast: [],
+    releaseYear,
+  },
+  seeds: [],
+  match: { score, level: getMatchLevel(score), breakdown: [] },
+});
+
+const idsOf = (candidates: RankedCandidate[]) =>
+  candidates.map((candidate) => candidate.movie.id);
+
+describe("getPopularityTier", () => {
+  it.each([
+    [8000, "blockbuster"],
+    [7999, "popular"],
+    [1500, "popular"],
+    [1499, "hidden_gem"],
+    [0, "hidden_gem"],
+  ])("puts %i votes in %s", (votes, tier) => {
+    expect(getPopularityTier(votes)).toBe(tier);
+  });
+});
+
+describe("adventureBonus", () => {
+  it("is zero when the user didn't set adventurousness", () => {
+    expect(adventureBonus(100)).toBeCloseTo(0);
+    expect(adventureBonus(20000)).toBeCloseTo(0);
+  });
+
+  it("lifts hidden gems and lowers blockbusters with the setting", () => {
+    expect(adventureBonus(100, 100)).toBe(25);
+    expect(adventureBonus(100, 50)).toBe(12.5);
+    expect(adventureBonus(20000, 60)).toBe(-5);
+    expect(adventureBonus(3000, 100)).toBe(0);
+  });
+});
+
+describe("labelPick", () => {
+  it("calls well-scored, well-known movies safe bets", () => {
+    const match = { score: 60, level: getMatchLevel(60), breakdown: [] };
+    expect(labelPick(3000, match)).toBe("safe_bet");
+    expect(labelPick(500, match)).toBe("wildcard");
+    expect(labelPick(3000, { ...match, score: 59 })).toBe("wildcard");
+  });
+});
+
+describe("diversifyCandidates", () => {
+  it("keeps the ranking when the candidates have nothing in common", () => {
+    const ranked = [
+      createCandidate({ id: 1, score: 90, genres: [1], releaseYear: 1990 }),
+      createCandidate({ id: 2, score: 80, genres: [2], releaseYear: 2000 }),
+      createCandidate({ id: 3, score: 70, genres: [3], voteCount: 500 }),
+    ];
+
+    expect(idsOf(diversifyCandidates({ ranked, count: 3 }))).toEqual([1, 2, 3]);
+  });
+
+  it("moves a different genre ahead of a close but similar candidate", () => {
+    const ranked = [
+      createCandidate({ id: 1, score: 90, genres: [18] }),
+      createCandidate({ id: 2, score: 88, genres: [18] }),
+      createCandidate({ id: 3, score: 80, genres: [35] }),
+    ];
+
+    // 88 - 12 (genre) - 4 (decade) - 4 (tier) loses to 80 - 4 - 4
+    expect(idsOf(diversifyCandidates({ ranked, count: 3 }))).toEqual([1, 3, 2]);
+  });
+
+  it("only repeats a director once nobody else is left", () => {
+    const ranked = [
+      createCandidate({ id: 1, score: 95, directors: [7] }),
+      createCandidate({ id: 2, score: 94, directors: [7], releaseYear: 1970 }),
+      createCandidate({ id: 3, score: 40, directors: [8] }),
+    ];
+
+    expect(idsOf(diversifyCandidates({ ranked, count: 3 }))).toEqual([1, 3, 2]);
+  });
+
+  it("lets adventurousness pick a hidden gem over a blockbuster", () => {
+    const ranked = [
+      createCandidate({ id: 1, score: 80, voteCount: 20000 }),
+      createCandidate({ id: 2, score: 70, voteCount: 300 }),
+    ];
+
+    expect(idsOf(diversifyCandidates({ ranked, count: 1 }))).toEqual([1]);
+    expect(
+      idsOf(diversifyCandidates({ ranked, count: 1, adventurousness: 100 }))
+    ).toEqual([2]);
+  });
+
+  it("stops at the requested count or when candidates run out", () => {
+    const ranked = [
+      createCandidate({ id: 1, score: 90 }),
+      createCandidate({ id: 2, score: 80 }),
+    ];
+
+    expect(diversifyCandidates({ ranked, count: 1 })).toHaveLength(1);
+    expect(diversifyCandidates({ ranked, count: 5 })).toHaveLength(2);
+    expect(diversifyCandidates({ ranked: [], count: 5 })).toEqual([]);
+  });
+});
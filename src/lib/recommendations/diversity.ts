@@ -0,0 +1,132 @@
+import type { PickType } from "@/types/movie";
+import type { RankedCandidate } from "./candidates";
+import type { MatchScore } from "./scoring";
+
+// Diversity and serendipity for a batch of recommendations
+// Ranking by taste score alone tends to return five movies from the same
+// genre, decade and director. The batch is picked greedily instead: each slot
+// goes to the best-scoring candidate after a penalty for what it shares with
+// the picks so far. The user's adventurousness (0-100) lifts hidden gems over
+// blockbusters before the batch is picked
+
+export type PopularityTier = "blockbuster" | "popular" | "hidden_gem";
+
+// TMDB vote counts roughly track how widely a movie was seen
+const BLOCKBUSTER_VOTES = 8000;
+const POPULAR_VOTES = 1500;
+
+// Score points a hidden gem gains at full adventurousness
+const MAX_ADVENTURE_BONUS = 25;
+// Below this score, or as a hidden gem, a pick is a wildcard
+const SAFE_BET_MIN_SCORE = 60;
+
+// Penalties against a candidate, per pick already in the batch
+const GENRE_OVERLAP_PENALTY = 12;
+const SAME_DECADE_PENALTY = 4;
+const SAME_TIER_PENALTY = 4;
+
+export const getPopularityTier = (voteCount: number): PopularityTier =>
+  voteCount >= BLOCKBUSTER_VOTES
+    ? "blockbuster"
+    : voteCount >= POPULAR_VOTES
+      ? "popular"
+      : "hidden_gem";
+
+// Ranking bonus for the adventurousness setting: hidden gems move up,
+// blockbusters slightly down. Zero when the user didn't set it
+export const adventureBonus = (voteCount: number, adventurousness = 0) => {
+  const weight = adventurousness / 100;
+  switch (getPopularityTier(voteCount)) {
+    case "hidden_gem":
+      return MAX_ADVENTURE_BONUS * weight;
+    case "blockbuster":
+      return (-MAX_ADVENTURE_BONUS / 3) * weight;
+    default:
+      return 0;
+  }
+};
+
+export const labelPick = (voteCount: number, match: MatchScore): PickType =>
+  match.score >= SAFE_BET_MIN_SCORE &&
+  getPopularityTier(voteCount) !== "hidden_gem"
+    ? "safe_bet"
+    : "wildcard";
+
+const toDecade = (year?: number) =>
+  year ? Math.floor(year / 10) * 10 : undefined;
+
+// Share of genres the two movies have in common (Jaccard index)
+const genreOverlap = (a: RankedCandidate, b: RankedCandidate) => {
+  const left = new Set(a.movie.genres.map((genre) => genre.id));
+  const right = new Set(b.movie.genres.map((genre) => genre.id));
+  const union = new Set([...left, ...right]).size;
+  if (union === 0) return 0;
+  return [...left].filter((id) => right.has(id)).length / union;
+};
+
+const sharesDirector = (a: RankedCandidate, b: RankedCandidate) =>
+  a.movie.directors.some((director) =>
+    b.movie.directors.some((other) => other.id === director.id)
+  );
+
+const similarityPenalty = (
+  candidate: RankedCandidate,
+  picked: RankedCandidate[]
+) =>
+  picked.reduce((penalty, pick) => {
+    const decade = toDecade(candidate.movie.releaseYear);
+    return (
+      penalty +
+      genreOverlap(candidate, pick) * GENRE_OVERLAP_PENALTY +
+      (decade && decade === toDecade(pick.movie.releaseYear)
+        ? SAME_DECADE_PENALTY
+        : 0) +
+      (getPopularityTier(candidate.movie.vote_count) ===
+      getPopularityTier(pick.movie.vote_count)
+        ? SAME_TIER_PENALTY
+        : 0)
+    );
+  }, 0);
+
+interface DiversifyCandidatesOptions {
+  // Best first
+  ranked: RankedCandidate[];
+  count: number;
+  adventurousness?: number;
+}
+
+// Pick `count` candidates that score well and differ from each other
+// A director is only repeated when nothing else is left
+export const diversifyCandidates = ({
+  ranked,
+  count,
+  adventurousness,
+}: DiversifyCandidatesOptions): RankedCandidate[] => {
+  const remaining = [...ranked];
+  const picked: RankedCandidate[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    const freshDirectors = remaining.filter(
+      (candidate) => !picked.some((pick) => sharesDirector(candidate, pick))
+    );
+    const pool = freshDirectors.length > 0 ? freshDirectors : remaining;
+
+    let best = pool[0];
+    let bestValue = -Infinity;
+    for (const candidate of pool) {
+      const value =
+        candidate.match.score +
+        adventureBonus(candidate.movie.vote_count, adventurousness) -
+        similarityPenalty(candidate, picked);
+      if (value > bestValue) {
+        best = candidate;
+        bestValue = value;
+      }
+    }
+
+    picked.push(best);
+    remaining.splice(remaining.indexOf(best), 1);
+  }
+
+  return picked;
+};
@@ -0,0 +1,169 @@
+import type { RecommendationQuota } from "@/types/movie";
+
+// Typed error taxonomy for the recommendation pipeline
+// Each error carries a stable code and the HTTP status the API route should return
+
+export type RecommendationErrorCode =
+  | "GENERATION_FAILED"
+  | "INVALID_MODEL_OUTPUT"
+  | "NO_RECOMMENDATIONS"
+  | "PROFILE_INCOMPLETE"
+  | "PROVIDER_MISCONFIGURED"
+  | "QUOTA_EXCEEDED"
+  | "RATE_LIMITED"
+  | "RUN_NOT_RESUMABLE";
+
+export class RecommendationError extends Error {
+  readonly code: RecommendationErrorCode;
+  readonly status: number;
+
+  constructor(
+    message: string,
+    code: RecommendationErrorCode,
+    status: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "RecommendationError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// The model provider call itself failed (network, auth, rate limit)
+export class RecommendationGenerationError extends RecommendationError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, "GENERATION_FAILED", 502, options);
+    this.name = "RecommendationGenerationError";
+  }
+}
+
+// The model kept answering, but never with a usable item after all retries
+export class InvalidModelOutputError extends RecommendationError {
+  readonly issues: string[];
+
+  constructor(
+    message: string,
+    issues: string[],
+    options?: { cause?: unknown }
+  ) {
+    super(message, "INVALID_MODEL_OUTPUT", 502, options);
+    this.name = "InvalidModelOutputError";
+    this.issues = issues;
+  }
+}
+
+// Valid suggestions were produced but none could be turned into a recommendation
+export class NoRecommendationsError extends RecommendationError {
+  constructor(message: string = "No recommendations found") {
+    super(message, "NO_RECOMMENDATIONS", 404);
+    this.name = "NoRecommendationsError";
+  }
+}
+
+// The user hasn't rated enough movies for a taste profile yet
+export class IncompleteProfileError extends RecommendationError {
+  constructor(minRatings: number) {
+    super(
+      `Rate at least ${minRatings} movies to unlock recommendations.`,
+      "PROFILE_INCOMPLETE",
+      409
+    );
+    this.name = "IncompleteProfileError";
+  }
+}
+
+// A resume named a run that finished, failed, is too old or has all its picks
+export class RunNotResumableError extends RecommendationError {
+  constructor() {
+    super(
+      "This recommendation run can't be resumed. Generate a new batch instead.",
+      "RUN_NOT_RESUMABLE",
+      409
+    );
+    this.name = "RunNotResumableError";
+  }
+}
+
+// The configured model provider is unknown or missing required settings
+export class RecommendationConfigError extends RecommendationError {
+  constructor(message: string) {
+    super(message, "PROVIDER_MISCONFIGURED", 500);
+    this.name = "RecommendationConfigError";
+  }
+}
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+// The user used up their daily generations, or is generating too quickly
+export class RecommendationQuotaError extends RecommendationError {
+  readonly quota: RecommendationQuota;
+  // Seconds until the next generation is allowed
+  readonly retryAfter: number;
+
+  constructor(quota: RecommendationQuota) {
+    const retryAfter = Math.max(
+      Math.ceil(
+        (new Date(quota.availableAt ?? Date.now()).getTime() - Date.now()) /
+          1000
+      ),
+      1
+    );
+    const exhausted = quota.remaining === 0;
+
+    super(
+      exhausted
+        ? `You've used all ${quota.limit} recommendation generations for today. Try again in ${formatWait(retryAfter)}.`
+        : `You're generating recommendations too quickly. Try again in ${formatWait(retryAfter)}.`,
+      exhausted ? "QUOTA_EXCEEDED" : "RATE_LIMITED",
+      429
+    );
+    this.name = "RecommendationQuotaError";
+    this.quota = quota;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Serialize any thrown value into the error payload shared by the JSON and streaming routes
+export const serializeRecommendationError = (
+  error: unknown
+): {
+  error: string;
+  code?: RecommendationErrorCode;
+  status: number;
+  retryAfter?: number;
+  quota?: RecommendationQuota;
+} => {
+  if (error instanceof RecommendationQuotaError) {
+    return {
+      error: error.message,
+      code: error.code,
+      status: error.status,
+      retryAfter: error.retryAfter,
+      quota: error.quota,
+    };
+  }
+
+  if (error instanceof RecommendationError) {
+    return { error: error.message, code: error.code, status: error.status };
+  }
+
+  return { error: "Failed to generate recommendations", status: 500 };
+};
+
+// Convert any thrown value into the JSON error response used by the API routes
+export const recommendationErrorResponse = (error: unknown): Response => {
+  const { status, ...body } = serializeRecommendationError(error);
+  return Response.json(body, {
+    status,
+    headers: body.retryAfter
+      ? { "Retry-After": String(body.retryAfter) }
+      : undefined,
+  });
+};
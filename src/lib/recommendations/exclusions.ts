@@ -0,0 +1,20 @@
+import { UserMovieHistory } from "@/types/movie";
+
+// Hard exclusions for recommendation runs
+// The prompt asks the model not to repeat movies, but only these id checks
+// guarantee it: every candidate and every resolved suggestion is filtered
+// against this set before it can be returned
+
+export const buildExcludedMovieIds = (
+  history: UserMovieHistory,
+  extraMovieIds: number[] = []
+): Set<number> =>
+  new Set([
+    ...extraMovieIds,
+    ...history.ratedMovies.map((movie) => movie.id),
+    ...history.wantToWatchList.map((movie) => movie.id),
+    ...history.watchedMovies.map((movie) => movie.id),
+    ...history.pastRecommendations.map((movie) => movie.id),
+    // Feedback is never capped, so dismissed movies stay excluded for good
+    ...history.recommendationFeedback.map((movie) => movie.id),
+  ]);
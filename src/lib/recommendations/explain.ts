@@ -0,0 +1,145 @@
+import { generateObject, NoObjectGeneratedError, type LanguageModel } from "ai";
+import { RecommendationConstraints, UserMovieHistory } from "@/types/movie";
+import type { RankedCandidate } from "./candidates";
+import { createRepairText } from "./generate";
+import { buildExplanationMessages } from "./prompts";
+import {
+  aiExplanationOutputSchema,
+  aiExplanationSchema,
+  partitionItems,
+} from "./schema";
+import {
+  describeOutcome,
+  trackLLMCall,
+  type TelemetryContext,
+} from "./telemetry";
+
+// Explanations for ranked TMDB candidates
+// The model only writes the "why"; it never chooses the movies. Any movie the
+// model skips or explains badly gets a template explanation built from its
+// score breakdown, so explanations can never fail a recommendation run.
+// Set RECOMMENDATION_EXPLANATIONS=template to skip the model entirely.
+
+export interface RecommendationExplanation {
+  reason: string;
+  personalizedReason: string;
+}
+
+const modelExplanationsEnabled = () =>
+  process.env.RECOMMENDATION_EXPLANATIONS !== "template";
+
+export const buildTemplateExplanation = ({
+  movie,
+  match,
+}: RankedCandidate): RecommendationExplanation => {
+  const highlights = match.breakdown
+    .filter((factor) => factor.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, 2)
+    .map((factor) => factor.label);
+
+  const reason =
+    highlights.length > 0
+      ? `${highlights.join(". ")}.`
+      : `"${movie.title}" is a popular pick with audiences.`;
+
+  return {
+    reason,
+    personalizedReason: movie.overview ? `${movie.overview} ${reason}` : reason,
+  };
+};
+
+interface ExplainRecommendationsOptions {
+  model: LanguageModel;
+  history: UserMovieHistory;
+  candidates: RankedCandidate[];
+  constraints?: RecommendationConstraints;
+  temperature?: number;
+  maxTokens?: number;
+  abortSignal?: AbortSignal;
+  telemetry?: TelemetryContext;
+}
+
+// Returns one explanation per candidate, in candidate order
+export const explainRecommendations = async ({
+  model,
+  history,
+  candidates,
+  constraints,
+  temperature = 0.7,
+  maxTokens = 2000,
+  abortSignal,
+  telemetry,
+}: ExplainRecommendationsOptions): Promise<RecommendationExplanation[]> => {
+  const explanations = new Map<number, RecommendationExplanation>();
+
+  if (candidates.length > 0 && modelExplanationsEnabled()) {
+    const startedAt = Date.now();
+    try {
+      const { object, usage } = await generateObject({
+        model,
+        messages: buildExplanationMessages({
+          history,
+          candidates,
+          constraints,
+        }),
+        schema: aiExplanationOutputSchema,
+        temperature,
+        maxTokens,
+        abortSignal,
+        experimental_repairText: createRepairText("explanations"),
+      });
+
+      const { valid, invalid } = partitionItems(
+        aiExplanationSchema,
+        object.explanations
+      );
+      await trackLLMCall(telemetry, {
+        model,
+        purpose: "explanation",
+        startedAt,
+        usage,
+        outcome: describeOutcome(
+          valid.length,
+          candidates.length,
+          invalid.length
+        ),
+      });
+      if (invalid.length > 0) {
+        console.warn(
+          "Rejected recommendation explanations:",
+          invalid.flatMap(({ issues }) => issues)
+        );
+      }
+
+      for (const { id, reason, personalizedReason } of valid) {
+        if (!explanations.has(id)) {
+          explanations.set(id, { reason, personalizedReason });
+        }
+      }
+    } catch (error) {
+      await trackLLMCall(telemetry, {
+        model,
+        purpose: "explanation",
+        startedAt,
+        usage: NoObjectGeneratedError.isInstance(error)
+          ? error.usage
+          : undefined,
+        outcome: "failed",
+        error,
+      });
+      console.warn(
+        "Recommendation explanations failed, using templates instead:",
+        NoObjectGeneratedError.isInstance(error)
+          ? "response was not valid JSON"
+          : error
+      );
+    }
+  }
+
+  return candidates.map(
+    (candidate) =>
+      explanations.get(candidate.movie.id) ||
+      buildTemplateExplanation(candidate)
+  );
+};
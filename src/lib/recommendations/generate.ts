@@ -0,0 +1,182 @@
+import {
+  generateObject,
+  NoObjectGeneratedError,
+  type CoreMessage,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from "ai";
+import {
+  aiRecommendationOutputSchema,
+  aiRecommendationSchema,
+  partitionItems,
+  type AIRecommendation,
+} from "./schema";
+import {
+  InvalidModelOutputError,
+  RecommendationGenerationError,
+} from "./errors";
+import {
+  describeOutcome,
+  trackLLMCall,
+  type TelemetryContext,
+} from "./telemetry";
+
+// Structured-output generation with repair and retry
+// Valid items are accepted as they arrive; if the batch comes back short,
+// the model is asked again only for the missing items
+
+const MAX_ATTEMPTS = 3;
+
+interface GenerateAIRecommendationsOptions {
+  model: LanguageModel;
+  messages: CoreMessage[];
+  count: number;
+  temperature?: number;
+  maxTokens?: number;
+  abortSignal?: AbortSignal;
+  telemetry?: TelemetryContext;
+}
+
+// Models sometimes wrap JSON in markdown fences or return a bare array
+// instead of the { [key]: [...] } envelope
+export const createRepairText =
+  (key: string) =>
+  async ({ text }: { text: string }) => {
+    const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+    const start = unfenced.search(/[[{]/);
+    if (start === -1) return null;
+
+    const closing = unfenced[start] === "[" ? "]" : "}";
+    const end = unfenced.lastIndexOf(closing);
+    if (end <= start) return null;
+
+    const candidate = unfenced.slice(start, end + 1);
+    try {
+      const parsed = JSON.parse(candidate);
+      return JSON.stringify(
+        Array.isArray(parsed) ? { [key]: parsed } : parsed
+      );
+    } catch {
+      return null;
+    }
+  };
+
+const buildRetryMessage = (
+  accepted: AIRecommendation[],
+  missing: number,
+  issues: string[]
+): CoreMessage => ({
+  role: "user",
+  content: `Your previous answer did not contain enough valid recommendations${
+    issues.length > 0 ? ` (problems: ${issues.slice(0, 5).join("; ")})` : ""
+  }. Provide exactly ${missing} more recommendation${
+    missing === 1 ? "" : "s"
+  } in the same format. Every item needs a non-empty "title", "reason" and "personalizedReason"; "year" and "director" are optional.${
+    accepted.length > 0
+      ? ` Do not repeat any of these titles: ${accepted
+          .map((rec) => rec.title)
+          .join(", ")}.`
+      : ""
+  }`,
+});
+
+export const generateAIRecommendations = async ({
+  model,
+  messages,
+  count,
+  temperature = 0.8,
+  maxTokens = 2000,
+  abortSignal,
+  telemetry,
+}: GenerateAIRecommendationsOptions): Promise<AIRecommendation[]> => {
+  const accepted: AIRecommendation[] = [];
+  const seenTitles = new Set<string>();
+  const issues: string[] = [];
+  let conversation = messages;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let items: unknown[] = [];
+    let usage: LanguageModelUsage | undefined;
+    const attemptIssues: string[] = [];
+    const startedAt = Date.now();
+
+    try {
+      const result = await generateObject({
+        model,
+        messages: conversation,
+        schema: aiRecommendationOutputSchema,
+        temperature,
+        maxTokens,
+        abortSignal,
+        experimental_repairText: createRepairText("recommendations"),
+      });
+      items = result.object.recommendations;
+      usage = result.usage;
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        await trackLLMCall(telemetry, {
+          model,
+          purpose: "recommendation",
+          startedAt,
+          outcome: "failed",
+          error,
+        });
+        throw new RecommendationGenerationError(
+          "The recommendation model could not be reached",
+          { cause: error }
+        );
+      }
+      usage = error.usage;
+      attemptIssues.push(`attempt ${attempt}: response was not valid JSON`);
+    }
+
+    const { valid, invalid } = partitionItems(aiRecommendationSchema, items);
+    await trackLLMCall(telemetry, {
+      model,
+      purpose: "recommendation",
+      startedAt,
+      usage,
+      outcome: describeOutcome(
+        valid.length,
+        count - accepted.length,
+        invalid.length
+      ),
+      error: attemptIssues[0],
+    });
+
+    for (const rec of valid) {
+      // Remakes share a title, so the year is part of the identity
+      const key = `${rec.title.toLowerCase()}|${rec.year ?? ""}`;
+      if (seenTitles.has(key) || accepted.length >= count) continue;
+      seenTitles.add(key);
+      accepted.push(rec);
+    }
+
+    invalid.forEach(({ issues: itemIssues }) =>
+      attemptIssues.push(...itemIssues)
+    );
+    if (attemptIssues.length > 0) {
+      console.warn(
+        `Recommendation attempt ${attempt} rejected output:`,
+        attemptIssues
+      );
+      issues.push(...attemptIssues);
+    }
+
+    if (accepted.length >= count || abortSignal?.aborted) break;
+
+    conversation = [
+      ...messages,
+      buildRetryMessage(accepted, count - accepted.length, attemptIssues),
+    ];
+  }
+
+  if (accepted.length === 0) {
+    throw new InvalidModelOutputError(
+      "Failed to generate recommendations",
+      issues
+    );
+  }
+
+  return accepted;
+};
@@ -0,0 +1,123 @@
+export { generateAIRecommendations } from "./generate";
+export {
+  generateCandidates,
+  rankCandidates,
+  type Candidate,
+  type RankedCandidate,
+} from "./candidates";
+export {
+  describeConstraints,
+  findConstraintViolation,
+  hasConstraints,
+} from "./constraints";
+export {
+  diversifyCandidates,
+  getPopularityTier,
+  labelPick,
+  type PopularityTier,
+} from "./diversity";
+export { buildExcludedMovieIds } from "./exclusions";
+export {
+  explainRecommendations,
+  type RecommendationExplanation,
+} from "./explain";
+export {
+  assertProfileReady,
+  buildOnboardingGrid,
+  getOnboardingStatus,
+  ONBOARDING_GENRES,
+} from "./onboarding";
+export { runRecommendationPipeline, RECOMMENDATION_COUNT } from "./pipeline";
+export {
+  buildExplanationMessages,
+  buildRecommendationMessages,
+  buildRefinementMessages,
+  DEFAULT_PROMPT_VERSION,
+  getPromptVersion,
+  PROMPT_TEMPLATES,
+  type PromptTemplate,
+} from "./prompts";
+export {
+  recommendRequestSchema,
+  recommendationConstraintsSchema,
+  recommendationFeedbackRequestSchema,
+  recommendationChatRequestSchema,
+  recommendationRunIdSchema,
+  recommendationJobIdSchema,
+  onboardingGenresRequestSchema,
+  parseRecommendRequest,
+  type RecommendRequest,
+} from "./request";
+export {
+  getResumableRun,
+  startRecommendationRun,
+  toRunResult,
+  type RecommendationRunTracker,
+  type ResumableRun,
+} from "./runs";
+export { scheduleWeeklyDigests } from "./digest";
+export {
+  enqueueRecommendationJob,
+  runRecommendationJob,
+  runRecommendationWorker,
+  RECOMMENDATION_STAGE_MESSAGES,
+} from "./jobs";
+export {
+  consumeRecommendationQuota,
+  getRecommendationQuota,
+  QUOTA_TIERS,
+  type ConsumedQuota,
+} from "./quota";
+export {
+  getCurrentConstraints,
+  getCurrentPicks,
+  interpretRefinement,
+  type Refinement,
+} from "./refine";
+export {
+  MODEL_PRICING,
+  trackLLMCall,
+  type TelemetryContext,
+} from "./telemetry";
+export {
+  resolveAIRecommendation,
+  type ResolvedRecommendation,
+} from "./resolve";
+export {
+  getRecommendationModel,
+  type RecommendationModel,
+  type RecommendationProviderName,
+} from "./providers";
+export {
+  buildTasteProfile,
+  loadTasteProfile,
+  type TasteMovie,
+  type TasteProfile,
+} from "./taste";
+export {
+  scoreCandidate,
+  type MatchLevel,
+  type MatchScore,
+  type ScoreFactor,
+} from "./scoring";
+export {
+  aiExplanationSchema,
+  aiRecommendationSchema,
+  aiRefinementSchema,
+  type AIExplanation,
+  type AIRecommendation,
+  type AIRefinement,
+} from "./schema";
+export {
+  RecommendationError,
+  RecommendationGenerationError,
+  InvalidModelOutputError,
+  NoRecommendationsError,
+  IncompleteProfileError,
+  RunNotResumableError,
+  RecommendationConfigError,
+  RecommendationQuotaError,
+  recommendationErrorResponse,
+  serializeRecommendationError,
+  type RecommendationErrorCode,
+} from "./errors";
@@ -0,0 +1,154 @@
+import type {
+  RecommendationJob,
+  RecommendationJobRequest,
+  RecommendationStage,
+} from "@/types/movie";
+import {
+  claimRecommendationJob,
+  createRecommendationJob,
+  getUserMovieHistory,
+  saveRecommendations,
+  updateRecommendationJob,
+} from "@/lib/db-utils";
+import { RECOMMENDATION_COUNT, runRecommendationPipeline } from "./pipeline";
+import { startRecommendationRun, toRunResult } from "./runs";
+
+// Background recommendation jobs
+// A generation can take longer than a serverless function is allowed to run,
+// so POST /api/recommend only queues a job in Postgres and the worker does the
+// work: the request's own job right after the response (next/server after())
+// and the rest of the queue on the cron-driven /api/recommend/worker, which
+// also picks up jobs whose worker died.
+// Clients poll /api/recommend/jobs/[jobId] for the stage and the results
+
+// Attempts before a job that keeps failing or timing out is given up on
+const MAX_JOB_ATTEMPTS = 3;
+// A running job not finished after this long is assumed to be abandoned
+const STALE_JOB_MS = 5 * 60 * 1000;
+// Leave room under the function's maxDuration (60s on /api/recommend and the
+// worker route) for the job in progress
+const WORKER_TIME_BUDGET_MS = 50 * 1000;
+
+// Progress text for each stage, for loading screens
+export const RECOMMENDATION_STAGE_MESSAGES: Record<
+  RecommendationStage,
+  string
+> = {
+  queued: "Waiting for a free worker...",
+  profile: "Analyzing your movie ratings...",
+  candidates: "Finding similar movies you might love...",
+  ranking: "Calculating match scores...",
+  explaining: "Adding detailed explanations...",
+  backfill: "Searching through thousands of films...",
+  saving: "Finalizing your recommendations...",
+  done: "Your recommendations are ready",
+};
+
+export const enqueueRecommendationJob = (
+  userEmail: string,
+  request: RecommendationJobRequest
+) => createRecommendationJob(userEmail, request);
+
+const failJob = (jobId: string, error: unknown) =>
+  updateRecommendationJob(jobId, {
+    status: "failed",
+    error: error instanceof Error ? error.message : String(error),
+    finishedAt: new Date(),
+  });
+
+const processRecommendationJob = async (
+  job: RecommendationJob,
+  userEmail: string
+) => {
+  if (job.attempts > MAX_JOB_ATTEMPTS) {
+    await failJob(job.id, "Gave up after repeated attempts");
+    return;
+  }
+
+  const history = await getUserMovieHistory(userEmail);
+  if (!history) {
+    await failJob(job.id, "Failed to load your movie history");
+    return;
+  }
+
+  const {
+    count = RECOMMENDATION_COUNT,
+    excludeMovieIds,
+    constraints,
+    trigger,
+  } = job.request;
+  // A retried job continues the run its first attempt started
+  const run = await startRecommendationRun({
+    userEmail,
+    history,
+    count,
+    excludeMovieIds,
+    constraints,
+    runId: job.runId ?? undefined,
+    trigger,
+  });
+  if (run.runId && run.runId !== job.runId) {
+    await updateRecommendationJob(job.id, { runId: run.runId });
+  }
+
+  try {
+    const recommendations = await runRecommendationPipeline({
+      history,
+      count,
+      excludeMovieIds,
+      constraints,
+      telemetry: { userEmail, runId: run.runId },
+      onStage: (stage) => updateRecommendationJob(job.id, { stage }),
+    });
+
+    await updateRecommendationJob(job.id, { stage: "saving" });
+    await saveRecommendations(userEmail, recommendations);
+    await run.finish(recommendations, "completed");
+
+    await updateRecommendationJob(job.id, {
+      status: "completed",
+      stage: "done",
+      results: recommendations.map(toRunResult),
+      error: null,
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    console.error("Recommendation job failed:", error);
+    await run.finish([], "failed", error);
+    await failJob(job.id, error);
+  }
+};
+
+// Process one job, e.g. the one a request just queued; false when it was
+// already claimed by another worker
+export const runRecommendationJob = async (jobId: string) => {
+  const claimed = await claimRecommendationJob(
+    new Date(Date.now() - STALE_JOB_MS),
+    jobId
+  );
+  if (!claimed) return false;
+
+  await processRecommendationJob(claimed.job, claimed.userEmail);
+  return true;
+};
+
+// Work through the queue until it is empty or the time budget is spent
+// Returns how many jobs were processed
+export const runRecommendationWorker = async ({
+  timeBudgetMs = WORKER_TIME_BUDGET_MS,
+}: { timeBudgetMs?: number } = {}) => {
+  const deadline = Date.now() + timeBudgetMs;
+  let processed = 0;
+
+  while (Date.now() < deadline) {
+    const claimed = await claimRecommendationJob(
+      new Date(Date.now() - STALE_JOB_MS)
+    );
+    if (!claimed) break;
+
+    await processRecommendationJob(claimed.job, claimed.userEmail);
+    processed++;
+  }
+
+  return processed;
+};
@@ -0,0 +1,125 @@
+import type { OnboardingMovie, OnboardingStatus } from "@/types/movie";
+import { ONBOARDING_CONFIG } from "@/lib/constants";
+import { getOnboardingProfile } from "@/lib/db-utils";
+import { mapWithConcurrency } from "@/lib/utils";
+import { MOVIE_GENRES } from "./constraints";
+import { IncompleteProfileError } from "./errors";
+import { discoverMovies, type TMDBListMovie } from "./tmdb";
+
+// Cold-start onboarding
+// A new account has no ratings, so there is nothing to build a taste profile
+// from. Onboarding asks for favorite genres and shows a grid of widely known
+// films to rate; recommendations stay locked until MIN_PROFILE_RATINGS
+// ratings exist. The grid is picked to cover as many genres as possible, so
+// each rating says something new about the user's taste
+
+const GRID_SIZE = 24;
+// Pages of TMDB's most-voted movies the grid is picked from
+const POOL_PAGES = 3;
+const WELL_KNOWN_MIN_VOTES = 3000;
+const TMDB_CONCURRENCY = 5;
+// A favorite genre counts this much more towards coverage than the others
+const FAVORITE_GENRE_WEIGHT = 1.5;
+
+export const ONBOARDING_GENRES = Object.entries(MOVIE_GENRES).map(
+  ([name, id]) => ({ id, name })
+);
+
+export const getOnboardingStatus = async (
+  userEmail: string
+): Promise<OnboardingStatus | null> => {
+  const profile = await getOnboardingProfile(userEmail);
+  if (!profile) return null;
+
+  const minRatings = ONBOARDING_CONFIG.MIN_PROFILE_RATINGS;
+  return {
+    ...profile,
+    minRatings,
+    isProfileReady: profile.ratedCount >= minRatings,
+  };
+};
+
+// Throw IncompleteProfileError until the user has rated enough movies
+// When the profile can't be read, requests are let through
+export const assertProfileReady = async (userEmail: string) => {
+  const status = await getOnboardingStatus(userEmail);
+  if (status && !status.isProfileReady) {
+    throw new IncompleteProfileError(status.minRatings);
+  }
+};
+
+const toOnboardingMovie = (movie: TMDBListMovie): OnboardingMovie => ({
+  id: movie.id,
+  title: movie.title,
+  poster_path: movie.poster_path,
+  release_date: movie.release_date,
+  overview: movie.overview,
+  vote_average: movie.vote_average,
+  vote_count: movie.vote_count,
+  genre_ids: movie.genre_ids,
+});
+
+// Greedy coverage: each pick is the movie whose genres have been seen least
+// so far, with vote count breaking ties
+export const buildOnboardingGrid = async (
+  favoriteGenres: number[] = []
+): Promise<OnboardingMovie[]> => {
+  const sources = [
+    ...Array.from({ length: POOL_PAGES }, (_, index) => ({
+      page: index + 1,
+    })),
+    ...favoriteGenres.map((genreId) => ({ with_genres: genreId })),
+  ];
+
+  const results = await mapWithConcurrency(
+    sources,
+    TMDB_CONCURRENCY,
+    (params) =>
+      discoverMovies({
+        ...params,
+        sort_by: "vote_count.desc",
+        "vote_count.gte": WELL_KNOWN_MIN_VOTES,
+      })
+  );
+
+  const pool = new Map<number, TMDBListMovie>();
+  for (const movie of results.flat()) {
+    if (movie.poster_path && movie.genre_ids.length > 0) {
+      pool.set(movie.id, movie);
+    }
+  }
+
+  const remaining = Array.from(pool.values());
+  const coverage = new Map<number, number>();
+  const grid: TMDBListMovie[] = [];
+
+  const informationValue = (movie: TMDBListMovie) =>
+    movie.genre_ids.reduce(
+      (value, genreId) =>
+        value +
+        (favoriteGenres.includes(genreId) ? FAVORITE_GENRE_WEIGHT : 1) /
+          (1 + (coverage.get(genreId) || 0)),
+      0
+    ) / movie.genre_ids.length;
+
+  while (grid.length < GRID_SIZE && remaining.length > 0) {
+    let best = remaining[0];
+    for (const movie of remaining) {
+      const difference = informationValue(movie) - informationValue(best);
+      if (
+        difference > 0 ||
+        (difference === 0 && movie.vote_count > best.vote_count)
+      ) {
+        best = movie;
+      }
+    }
+
+    grid.push(best);
+    remaining.splice(remaining.indexOf(best), 1);
+    for (const genreId of best.genre_ids) {
+      coverage.set(genreId, (coverage.get(genreId) || 0) + 1);
+    }
+  }
+
+  return grid.map(toOnboardingMovie);
+};
@@ -0,0 +1,245 @@
+import type { LanguageModel } from "ai";
+import {
+  RecommendationConstraints,
+  RecommendationStage,
+  UserMovieHistory,
+} from "@/types/movie";
+import { getMovieTitles } from "@/lib/db-utils";
+import {
+  generateCandidates,
+  rankCandidates,
+  type SeedMovie,
+} from "./candidates";
+import { diversifyCandidates } from "./diversity";
+import { explainRecommendations } from "./explain";
+import { generateAIRecommendations } from "./generate";
+import { getRecommendationModel } from "./providers";
+import { buildRecommendationMessages, getPromptTemplate } from "./prompts";
+import {
+  resolveAIRecommendation,
+  toResolvedRecommendation,
+  type ResolvedRecommendation,
+} from "./resolve";
+import { loadTasteProfile, type TasteProfile } from "./taste";
+import { buildExcludedMovieIds } from "./exclusions";
+import { NoRecommendationsError } from "./errors";
+import type { TelemetryContext } from "./telemetry";
+
+// End-to-end recommendation pipeline:
+// taste profile → TMDB candidates → scoring → diversifying → model-written
+// explanations
+// Movies always come from TMDB; the model only picks titles itself when the
+// candidate pool can't fill the request (e.g. a user without any ratings yet).
+// Used by both the JSON route and the streaming route; onRecommendation fires
+// as soon as each recommendation is ready, onStage as each step begins
+
+export const RECOMMENDATION_COUNT = 5;
+// Model backfill rounds; suggestions that hit an exclusion are re-requested
+const MAX_BACKFILL_ROUNDS = 3;
+// Recent past recommendations listed in the backfill prompt; older ones are
+// still excluded by id
+const PROMPT_PAST_RECOMMENDATIONS = 30;
+
+interface RecommendationPipelineOptions {
+  history: UserMovieHistory;
+  count?: number;
+  excludeMovieIds?: number[];
+  constraints?: RecommendationConstraints;
+  // Candidates come from these movies instead of the user's favorites
+  seedMovies?: SeedMovie[];
+  abortSignal?: AbortSignal;
+  onRecommendation?: (
+    recommendation: ResolvedRecommendation
+  ) => void | Promise<void>;
+  onStage?: (stage: RecommendationStage) => void | Promise<void>;
+  telemetry?: TelemetryContext;
+}
+
+interface ModelSuggestionOptions {
+  model: LanguageModel;
+  history: UserMovieHistory;
+  profile: TasteProfile;
+  count: number;
+  excludeIds: Set<number>;
+  excludeTitles: string[];
+  constraints?: RecommendationConstraints;
+  abortSignal?: AbortSignal;
+  onRecommendation?: RecommendationPipelineOptions["onRecommendation"];
+  telemetry?: TelemetryContext;
+}
+
+// Backfill: ask the model for titles and resolve them against TMDB
+// Suggestions that resolve to an excluded movie are dropped; the caller asks
+// again with every suggested title excluded
+const suggestFromModel = async ({
+  model,
+  history,
+  profile,
+  count,
+  excludeIds,
+  excludeTitles,
+  constraints,
+  abortSignal,
+  onRecommendation,
+  telemetry,
+}: ModelSuggestionOptions): Promise<{
+  recommendations: ResolvedRecommendation[];
+  suggestedTitles: string[];
+}> => {
+  const aiRecommendations = await generateAIRecommendations({
+    model,
+    count,
+    messages: buildRecommendationMessages({
+      history,
+      count,
+      excludeTitles,
+      constraints,
+    }),
+    abortSignal,
+    telemetry,
+  });
+
+  const resolved: Array<ResolvedRecommendation | null> = new Array(
+    aiRecommendations.length
+  ).fill(null);
+
+  // Resolve concurrently so a slow TMDB lookup doesn't hold back the others
+  await Promise.all(
+    aiRecommendations.map(async (aiRec, index) => {
+      if (abortSignal?.aborted) return;
+
+      const recommendation = await resolveAIRecommendation(
+        aiRec,
+        profile,
+        constraints
+      );
+      if (!recommendation || abortSignal?.aborted) return;
+
+      // Already seen, saved or recommended - or two titles resolved to the
+      // same TMDB movie
+      if (excludeIds.has(recommendation.id)) return;
+      excludeIds.add(recommendation.id);
+
+      resolved[index] = recommendation;
+      await onRecommendation?.(recommendation);
+    })
+  );
+
+  return {
+    recommendations: resolved.filter(
+      (rec): rec is ResolvedRecommendation => rec !== null
+    ),
+    suggestedTitles: aiRecommendations.map((aiRec) => aiRec.title),
+  };
+};
+
+export const runRecommendationPipeline = async ({
+  history,
+  count = RECOMMENDATION_COUNT,
+  excludeMovieIds = [],
+  constraints,
+  seedMovies,
+  abortSignal,
+  onRecommendation,
+  onStage,
+  telemetry,
+}: RecommendationPipelineOptions): Promise<ResolvedRecommendation[]> => {
+  const { model } = getRecommendationModel();
+  // Explanations fall back to templates on any error, so a misconfigured
+  // prompt version has to fail here instead
+  getPromptTemplate();
+  await onStage?.("profile");
+  const profile = await loadTasteProfile(history);
+
+  // Never recommend something the user already rated, saved, watched or
+  // was recommended before
+  const excludeIds = buildExcludedMovieIds(history, excludeMovieIds);
+
+  await onStage?.("candidates");
+  const candidates = await generateCandidates({
+    history,
+    profile,
+    excludeIds,
+    constraints,
+    seedMovies,
+  });
+  await onStage?.("ranking");
+  const ranked = diversifyCandidates({
+    ranked: await rankCandidates({ profile, candidates, count, constraints }),
+    count,
+    adventurousness: constraints?.adventurousness,
+  });
+  if (abortSignal?.aborted) return [];
+
+  await onStage?.("explaining");
+  const explanations = await explainRecommendations({
+    model,
+    history,
+    candidates: ranked,
+    constraints,
+    abortSignal,
+    telemetry,
+  });
+
+  const recommendations: ResolvedRecommendation[] = [];
+  for (const [index, candidate] of ranked.entries()) {
+    if (abortSignal?.aborted) return recommendations;
+
+    const recommendation = toResolvedRecommendation(
+      candidate.movie,
+      candidate.match,
+      explanations[index]
+    );
+    excludeIds.add(recommendation.id);
+    recommendations.push(recommendation);
+    await onRecommendation?.(recommendation);
+  }
+
+  if (recommendations.length < count && !abortSignal?.aborted) {
+    await onStage?.("backfill");
+    const excludedMovies = await getMovieTitles(excludeMovieIds);
+    const excludeTitles = [
+      ...excludedMovies.map((movie) => movie.title),
+      ...history.pastRecommendations
+        .slice(0, PROMPT_PAST_RECOMMENDATIONS)
+        .map((movie) => movie.title),
+      ...recommendations.map((rec) => rec.title),
+    ];
+
+    for (
+      let round = 1;
+      round <= MAX_BACKFILL_ROUNDS &&
+      recommendations.length < count &&
+      !abortSignal?.aborted;
+      round++
+    ) {
+      try {
+        const backfill = await suggestFromModel({
+          model,
+          history,
+          profile,
+          count: count - recommendations.length,
+          excludeIds,
+          excludeTitles,
+          constraints,
+          abortSignal,
+          onRecommendation,
+          telemetry,
+        });
+        recommendations.push(...backfill.recommendations);
+        excludeTitles.push(...backfill.suggestedTitles);
+      } catch (error) {
+        // A partial list is still worth returning
+        if (recommendations.length === 0) throw error;
+        console.warn("Model backfill failed, returning partial list:", error);
+        break;
+      }
+    }
+  }
+
+  if (recommendations.length === 0 && !abortSignal?.aborted) {
+    throw new NoRecommendationsError();
+  }
+
+  return recommendations;
+};
@@ -0,0 +1,50 @@
+import { RecommendationConfigError } from "../errors";
+import type {
+  ExplanationPromptInput,
+  PromptTemplate,
+  RecommendationPromptInput,
+  RefinementPromptInput,
+} from "./shared";
+import { v2 } from "./v2";
+
+// Versioned prompt templates for AI recommendations
+// Built from the user's database history; movies without a real cached title are left out
+//
+// buildExplanationMessages is the main path: the movies are already picked
+// from TMDB and the model only explains them. buildRecommendationMessages asks
+// the model for titles and is only used to backfill when TMDB runs short.
+// buildRefinementMessages turns a "refine these picks" chat message into
+// changes to the request; the pipeline then finds the new picks.
+//
+// RECOMMENDATION_PROMPT_VERSION picks the template (DEFAULT_PROMPT_VERSION when
+// unset). The version is recorded with every recommendation run, so runs and
+// eval reports (pnpm eval:recommendations) can be compared across revisions
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = { v2 };
+
+export const DEFAULT_PROMPT_VERSION = "v2";
+
+export const getPromptVersion = (): string =>
+  process.env.RECOMMENDATION_PROMPT_VERSION || DEFAULT_PROMPT_VERSION;
+
+export const getPromptTemplate = (): PromptTemplate => {
+  const version = getPromptVersion();
+  const template = PROMPT_TEMPLATES[version];
+
+  if (!template) {
+    throw new RecommendationConfigError(`Unknown prompt version "${version}"`);
+  }
+
+  return template;
+};
+
+export const buildRecommendationMessages = (input: RecommendationPromptInput) =>
+  getPromptTemplate().recommendation(input);
+
+export const buildExplanationMessages = (input: ExplanationPromptInput) =>
+  getPromptTemplate().explanation(input);
+
+export const buildRefinementMessages = (input: RefinementPromptInput) =>
+  getPromptTemplate().refinement(input);
+
+export type { PromptTemplate } from "./shared";
@@ -0,0 +1,50 @@
+import type { CoreMessage } from "ai";
+import type {
+  MovieRecommendation,
+  RecommendationChatMessage,
+  RecommendationConstraints,
+  UserMovieHistory,
+} from "@/types/movie";
+import type { RankedCandidate } from "../candidates";
+import { describeConstraints } from "../constraints";
+
+// What every prompt version is given, and helpers they share
+
+export interface RecommendationPromptInput {
+  history: UserMovieHistory;
+  count: number;
+  excludeTitles?: string[];
+  constraints?: RecommendationConstraints;
+}
+
+export interface ExplanationPromptInput {
+  history: UserMovieHistory;
+  candidates: RankedCandidate[];
+  constraints?: RecommendationConstraints;
+}
+
+export interface RefinementPromptInput {
+  history: UserMovieHistory;
+  picks: MovieRecommendation[];
+  conversation: Pick<RecommendationChatMessage, "role" | "content">[];
+  message: string;
+  constraints?: RecommendationConstraints;
+}
+
+export interface PromptTemplate {
+  version: string;
+  recommendation: (input: RecommendationPromptInput) => CoreMessage[];
+  explanation: (input: ExplanationPromptInput) => CoreMessage[];
+  refinement: (input: RefinementPromptInput) => CoreMessage[];
+}
+
+// The user's constraints for this request, or nothing when there are none
+export const formatConstraints = (
+  constraints: RecommendationConstraints | undefined,
+  intro: string
+) => {
+  const lines = describeConstraints(constraints);
+  return lines.length > 0
+    ? `\n\n${intro}\n${lines.map((line) => `- ${line}`).join("\n")}`
+    : "";
+};
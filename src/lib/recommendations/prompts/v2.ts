@@ -0,0 +1,247 @@
+import type { CoreMessage } from "ai";
+import { RatedMovie } from "@/types/movie";
+import { isPlaceholderTitle } from "@/lib/movieUtils";
+import { GENRE_NAMES } from "../constraints";
+import {
+  formatConstraints,
+  type ExplanationPromptInput,
+  type PromptTemplate,
+  type RecommendationPromptInput,
+  type RefinementPromptInput,
+} from "./shared";
+
+// Prompt version v2: TMDB picks the movies and the model explains them
+// Released prompts are never edited; copy this file to a new version instead.
+// The fixture provider (providers/fixture) recognises these prompts by their
+// [id:...] tags and the "The user's new message" line
+
+const SYSTEM_PROMPT =
+  "You are a movie recommendation expert with a fun, creative personality. Provide accurate, helpful movie recommendations based on user preferences. You MUST always respond with valid JSON in the exact format specified. Do not include any additional text, explanations, or markdown formatting - only the JSON object.";
+
+const recommendation = ({
+  history,
+  count,
+  excludeTitles = [],
+  constraints,
+}: RecommendationPromptInput): CoreMessage[] => {
+  const hasTitle = (movie: { title: string }) =>
+    !isPlaceholderTitle(movie.title);
+  const ratedMovies = history.ratedMovies.filter(hasTitle);
+  const wantToWatchList = history.wantToWatchList.filter(hasTitle);
+  const ratedIds = new Set(ratedMovies.map((movie) => movie.id));
+  // Rated movies already carry the user's opinion, so only list unrated watches
+  const watchedMovies = history.watchedMovies.filter(
+    (movie) => hasTitle(movie) && !ratedIds.has(movie.id)
+  );
+
+  // Build lists for the prompt
+  const likedMovies = ratedMovies.filter((movie) => movie.rating >= 7);
+  const wantToWatchMoviesList = wantToWatchList
+    .map((movie) => movie.title)
+    .join(", ");
+  const notInterestedMovies = history.recommendationFeedback.filter(
+    (movie) => movie.feedback === "not_interested" && hasTitle(movie)
+  );
+  const ratedMovieKeys = new Set(ratedMovies.map((movie) => movie.title));
+  const wantToWatchKeys = new Set(wantToWatchList.map((movie) => movie.title));
+
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT,
+    },
+    {
+      role: "user",
+      content: `Based on these movies the user rated highly (7+ stars): ${likedMovies
+        .map((movie: RatedMovie) => `${movie.title} - (${movie.rating}/10)`)
+        .join(", ")}
+
+The user has also rated these other movies: ${ratedMovies
+        .filter((movie: RatedMovie) => movie.rating < 7)
+        .map((movie: RatedMovie) => `${movie.title} - (${movie.rating}/10)`)
+        .join(", ")}
+
+The user has these movies in their want to watch list (movies they want to see): ${
+        wantToWatchMoviesList || "None"
+      }
+
+The user has also watched these movies: ${
+        watchedMovies
+          .map((movie) =>
+            movie.rating ? `${movie.title} - (${movie.rating}/10)` : movie.title
+          )
+          .join(", ") || "None"
+      }
+
+The user said they are NOT interested in these earlier recommendations, so avoid movies like them: ${
+        notInterestedMovies.map((movie) => movie.title).join(", ") || "None"
+      }${formatConstraints(
+        constraints,
+        "For this request, EVERY recommendation must match ALL of these:"
+      )}
+
+Please recommend ${count} movies that the user would likely enjoy. For each recommendation, provide:
+1. The exact movie title (DO NOT include the year - just the movie name)
+2. The release year, as a number
+3. The director's name
+4. A brief reason why you're recommending it (1-2 sentences)
+5. A detailed, personalized reason that includes: what the movie is about, why it's interesting based on their taste, what audiences/critics think about it, AND a sentence about how others who liked similar movies to the user's highly-rated films also enjoyed this movie (3-4 sentences total)
+
+IMPORTANT: Do NOT recommend any movies that the user has already rated, watched or has in their want to watch list. The user has rated these movies: ${Array.from(
+        ratedMovieKeys
+      ).join(", ")}. The user has these in their want to watch list: ${
+        Array.from(wantToWatchKeys).join(", ") || "None"
+      }. The user has watched these movies: ${
+        watchedMovies.map((movie) => movie.title).join(", ") || "None"
+      }${
+        excludeTitles.length > 0
+          ? `. You have already recommended these, so do not repeat them: ${excludeTitles.join(", ")}`
+          : ""
+      }
+
+You MUST respond with ONLY a JSON object with a "recommendations" array containing objects with "title", "year", "director", "reason", and "personalizedReason" fields. The year and director are used to tell apart movies that share a title, so leave them out rather than guess.
+
+Example format:
+{
+  "recommendations": [
+{
+  "title": "Inception",
+  "year": 2010,
+  "director": "Christopher Nolan",
+  "reason": "This mind-bending thriller shares similar themes and pacing to movies you rated highly.",
+  "personalizedReason": "This gripping psychological thriller follows a detective's descent into madness as he investigates a series of increasingly disturbing crimes. Given your love for complex character studies like The Dark Knight (10/10), you'll appreciate how this film explores the blurred lines between justice and obsession. Critics praised its atmospheric tension and mind-bending plot twists, with audiences calling it 'a masterclass in psychological suspense' that keeps you guessing until the very end. Fans of The Dark Knight and other Christopher Nolan films consistently rate this movie highly, with many saying it captures the same intellectual depth and visual storytelling they love."
+}
+  ]
+}
+
+Make the personalizedReason informative and engaging. Include: 1) A brief plot summary, 2) Why it matches their taste based on their ratings, 3) What critics/audiences say about it, 4) A natural sentence about how others who enjoyed similar movies to the user's highly-rated films also loved this movie. Be specific about the movie's content and appeal. Only recommend movies that are well-known and available on major streaming platforms. Do not include any text before or after the JSON object.`,
+    },
+  ];
+};
+
+const explanation = ({
+  history,
+  candidates,
+  constraints,
+}: ExplanationPromptInput): CoreMessage[] => {
+  const likedMovies = history.ratedMovies.filter(
+    (movie) => movie.rating >= 7 && !isPlaceholderTitle(movie.title)
+  );
+
+  const movieList = candidates
+    .map(({ movie, match }) => {
+      const year = movie.release_date
+        ? ` (${movie.release_date.slice(0, 4)})`
+        : "";
+      const signals = match.breakdown
+        .filter((factor) => factor.points > 0)
+        .map((factor) => factor.label)
+        .join("; ");
+      return `[id:${movie.id}] ${movie.title}${year}
+Overview: ${movie.overview || "Not available"}
+Why it was picked: ${signals || "Broad audience appeal"}`;
+    })
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT,
+    },
+    {
+      role: "user",
+      content: `The user rated these movies highly (7+ stars): ${
+        likedMovies
+          .map((movie: RatedMovie) => `${movie.title} - (${movie.rating}/10)`)
+          .join(", ") || "None yet"
+      }
+
+These movies were picked for the user from their taste profile:
+
+${movieList}${formatConstraints(
+        constraints,
+        "The user asked for movies matching these, and every movie above does. Mention how each one fits the request:"
+      )}
+
+Write an explanation for EVERY movie above. Do not suggest other movies. For each one provide:
+1. "id": the number from its [id:...] tag
+2. "reason": a brief reason why it suits the user (1-2 sentences)
+3. "personalizedReason": what the movie is about, why it fits the user's taste (refer to their highly-rated movies and the signals listed under "Why it was picked"), and what audiences/critics think about it (3-4 sentences total)
+
+Only use facts given above or that you are certain of. You MUST respond with ONLY a JSON object with an "explanations" array containing objects with "id", "reason", and "personalizedReason" fields.`,
+    },
+  ];
+};
+
+const refinement = ({
+  history,
+  picks,
+  conversation,
+  message,
+  constraints,
+}: RefinementPromptInput): CoreMessage[] => {
+  const likedMovies = history.ratedMovies.filter(
+    (movie) => movie.rating >= 7 && !isPlaceholderTitle(movie.title)
+  );
+
+  const pickList = picks
+    .map((rec, index) => {
+      const year = rec.release_date ? ` (${rec.release_date.slice(0, 4)})` : "";
+      return `#${index + 1} ${rec.title}${year}: ${rec.reason}`;
+    })
+    .join("\n");
+
+  const transcript = conversation
+    .map((turn) => `${turn.role === "user" ? "User" : "You"}: ${turn.content}`)
+    .join("\n");
+
+  return [
+    {
+      role: "system",
+      content: SYSTEM_PROMPT,
+    },
+    {
+      role: "user",
+      content: `The user rated these movies highly (7+ stars): ${
+        likedMovies
+          .map((movie: RatedMovie) => `${movie.title} - (${movie.rating}/10)`)
+          .join(", ") || "None yet"
+      }
+
+These are the picks the user is looking at:
+${pickList || "None"}${formatConstraints(
+        constraints,
+        "The picks already had to match these:"
+      )}
+
+Conversation so far:
+${transcript || "None"}
+
+The user's new message: "${message}"
+
+Work out how the user wants the picks changed. You MUST respond with ONLY a JSON object with these fields:
+- "reply": one or two friendly sentences telling the user what you are changing
+- "mode": "add" if the user wants more picks on top of the current ones, otherwise "replace"
+- "count": how many new picks the user asked for, or null
+- "moreLike": the # numbers of the picks the user wants more like, or null
+- "resetConstraints": true only if the user wants to start over without the earlier requirements
+- "genres": genres to focus on, from: ${GENRE_NAMES.join(", ")}; or null
+- "excludeGenres": genres to avoid, from the same list; or null
+- "mood": one of feel_good, funny, thrilling, dark, thought_provoking, romantic, scary, epic; or null
+- "maxRuntime": the longest runtime in minutes, or null
+- "decadeFrom" and "decadeTo": the first year of the earliest and latest decade (e.g. 1990), or null
+- "language": the two-letter ISO 639-1 code of the original language, or null
+- "audience": one of solo, partner, friends, kids; or null
+- "streamingOnly": true if they only want movies included with a streaming subscription, or null
+
+Use null for anything the message doesn't change. Do not name movies yourself; the new picks are found from the user's taste profile using these fields.`,
+    },
+  ];
+};
+
+export const v2: PromptTemplate = {
+  version: "v2",
+  recommendation,
+  explanation,
+  refinement,
+};
@@ -0,0 +1,197 @@
+import { simulateReadableStream, type LanguageModelV1 } from "ai";
+import { GENRE_NAMES } from "../constraints";
+
+// Deterministic offline stand-in for the recommendation model
+// Returns canned recommendations so /api/recommend can run end to end
+// without network access. Titles already mentioned in the prompt (rated,
+// watchlisted or previously accepted) are skipped, so retries stay consistent.
+// Explanation prompts get a generic explanation for every [id:...] movie listed.
+// Refinement prompts are read with a few keyword rules ("less horror",
+// "more comedy", "like the second one", "add ...").
+
+const FIXTURE_RECOMMENDATIONS = [
+  {
+    title: "Arrival",
+    year: 2016,
+    director: "Denis Villeneuve",
+    reason:
+      "A cerebral first-contact story with the emotional weight of the dramas you rate highly.",
+    personalizedReason:
+      "A linguist is recruited to communicate with visitors whose arrival has put the world on edge. Its slow-burn puzzle structure rewards the attention you give to thoughtful films. Critics singled out its score and Amy Adams' performance. Viewers who loved modern sci-fi dramas consistently call it one of the best of the decade.",
+  },
+  {
+    title: "Parasite",
+    year: 2019,
+    director: "Bong Joon Ho",
+    reason:
+      "A genre-bending thriller that keeps surprising you, with sharp social commentary.",
+    personalizedReason:
+      "A struggling family cons its way into the household of a wealthy one, until a discovery in the basement changes everything. The tonal shifts suit viewers who enjoy films that refuse to be one thing. It won the Palme d'Or and Best Picture. People who enjoy twisty thrillers often name it their favorite recent discovery.",
+  },
+  {
+    title: "Mad Max: Fury Road",
+    year: 2015,
+    director: "George Miller",
+    reason:
+      "Relentless practical action with more character than most blockbusters.",
+    personalizedReason:
+      "Max and Furiosa flee a desert warlord in an armored war rig across a two-hour chase. Its visual storytelling suits anyone who likes action that means something. Critics called it a landmark of the genre. Fans of kinetic, well-crafted action routinely rank it among their all-time favorites.",
+  },
+  {
+    title: "Spirited Away",
+    year: 2001,
+    director: "Hayao Miyazaki",
+    reason: "An endlessly inventive animated fantasy that works at any age.",
+    personalizedReason:
+      "A young girl is trapped in a spirit world bathhouse and must work to free her parents. The film's imagination and warmth pair well with the adventurous stories you enjoy. It is one of the most acclaimed animated films ever made. Viewers who love world-building often say it changed how they see animation.",
+  },
+  {
+    title: "Whiplash",
+    year: 2014,
+    director: "Damien Chazelle",
+    reason:
+      "A tense, tightly edited drama about ambition that plays like a thriller.",
+    personalizedReason:
+      "An ambitious jazz drummer meets a conductor who will stop at nothing to push him. The film's intensity matches the gripping dramas in your history. Critics praised J.K. Simmons' Oscar-winning performance. Audiences who like character-driven stories frequently call the finale unforgettable.",
+  },
+  {
+    title: "The Grand Budapest Hotel",
+    year: 2014,
+    director: "Wes Anderson",
+    reason:
+      "A witty, beautifully designed caper with a surprising emotional core.",
+    personalizedReason:
+      "A legendary concierge and his lobby boy are pulled into a murder mystery over a priceless painting. Its humor and craft suit viewers who enjoy a distinctive directorial voice. Critics loved its production design and ensemble cast. Fans of clever comedies often rank it as Wes Anderson's best.",
+  },
+  {
+    title: "Knives Out",
+    year: 2019,
+    director: "Rian Johnson",
+    reason: "A playful modern whodunit with a sharp ensemble cast.",
+    personalizedReason:
+      "A detective investigates the death of a crime novelist whose family all had a motive. The twisting plot rewards viewers who like solving along with the characters. Critics praised its script and performances. Mystery fans regularly recommend it as a crowd-pleaser that still surprises.",
+  },
+  {
+    title: "Blade Runner 2049",
+    year: 2017,
+    director: "Denis Villeneuve",
+    reason:
+      "A visually stunning sequel that expands its world in thoughtful directions.",
+    personalizedReason:
+      "A replicant blade runner uncovers a secret that could upend what's left of society. Its atmosphere and deliberate pacing suit viewers who enjoy immersive sci-fi. Critics celebrated Roger Deakins' Oscar-winning cinematography. Fans of the original and of cerebral sci-fi often call it a rare worthy sequel.",
+  },
+];
+
+const promptText = (prompt: Parameters<LanguageModelV1["doGenerate"]>[0]) =>
+  prompt.prompt
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => ("text" in part ? part.text : ""))
+            .join(" ")
+    )
+    .join("\n");
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth"];
+
+const buildFixtureRefinement = (message: string) => {
+  const lowerMessage = message.toLowerCase();
+  const genresAfter = (words: string) =>
+    GENRE_NAMES.filter((name) =>
+      new RegExp(`\\b(?:${words})\\s+${name.toLowerCase()}`).test(lowerMessage)
+    );
+
+  const excludeGenres = genresAfter("less|fewer|no|without");
+  const genres = genresAfter("more");
+  const moreLike = ORDINALS.flatMap((word, index) =>
+    lowerMessage.includes(`like the ${word}`) ||
+    lowerMessage.includes(`like #${index + 1}`)
+      ? [index + 1]
+      : []
+  );
+  const mode = /\b(?:add|another|extra)\b/.test(lowerMessage)
+    ? "add"
+    : "replace";
+
+  const changes = [
+    ...excludeGenres.map((name) => `less ${name}`),
+    ...genres.map((name) => `more ${name}`),
+    ...moreLike.map((position) => `more like #${position}`),
+  ];
+
+  return JSON.stringify({
+    reply:
+      changes.length > 0
+        ? `Got it: ${changes.join(", ")}.`
+        : "Here's a fresh set of picks for you.",
+    mode,
+    moreLike: moreLike.length > 0 ? moreLike : null,
+    genres: genres.length > 0 ? genres : null,
+    excludeGenres: excludeGenres.length > 0 ? excludeGenres : null,
+  });
+};
+
+const buildFixtureResponse = (
+  options: Parameters<LanguageModelV1["doGenerate"]>[0]
+) => {
+  const text = promptText(options);
+
+  const refinement = text.match(
+    /The user's new message: "([\s\S]*?)"\n\nWork out/
+  );
+  if (refinement) {
+    return buildFixtureRefinement(refinement[1]);
+  }
+
+  const listedMovies = Array.from(
+    text.matchAll(/\[id:(\d+)\] (.+?)(?: \(\d{4}\))?$/gm)
+  );
+  if (listedMovies.length > 0) {
+    return JSON.stringify({
+      explanations: listedMovies.map(([, id, title]) => ({
+        id: Number(id),
+        reason: `${title} lines up with the movies you rate highly.`,
+        personalizedReason: `${title} was picked from movies related to your favorites. It shares the genres and tone of the films you rated highly, and audiences who liked those films rate it well too.`,
+      })),
+    });
+  }
+
+  const lowerText = text.toLowerCase();
+  const recommendations = FIXTURE_RECOMMENDATIONS.filter(
+    (rec) => !lowerText.includes(rec.title.toLowerCase())
+  );
+
+  return JSON.stringify({ recommendations });
+};
+
+export const createFixtureModel = (
+  modelId: string = "fixture-v1"
+): LanguageModelV1 => ({
+  specificationVersion: "v1",
+  provider: "fixture",
+  modelId,
+  defaultObjectGenerationMode: "json",
+  doGenerate: async (options) => ({
+    text: buildFixtureResponse(options),
+    finishReason: "stop",
+    usage: { promptTokens: 0, completionTokens: 0 },
+    rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+  }),
+  doStream: async (options) => ({
+    stream: simulateReadableStream({
+      chunks: [
+        {
+          type: "text-delta" as const,
+          textDelta: buildFixtureResponse(options),
+        },
+        {
+          type: "finish" as const,
+          finishReason: "stop" as const,
+          usage: { promptTokens: 0, completionTokens: 0 },
+        },
+      ],
+    }),
+    rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+  }),
+});
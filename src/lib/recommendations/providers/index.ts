@@ -0,0 +1,60 @@
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { createFixtureModel } from "./fixture";
+import { RecommendationConfigError } from "../errors";
+
+// Recommendation model provider selection
+// Chosen by RECOMMENDATION_PROVIDER so the route never hardcodes a vendor:
+// - openai: hosted OpenAI models (default)
+// - openai-compatible: any OpenAI-compatible endpoint such as Ollama or vLLM
+// - fixture: deterministic offline stand-in for local development and testing
+
+export type RecommendationProviderName =
+  "openai" | "openai-compatible" | "fixture";
+
+export interface RecommendationModel {
+  provider: RecommendationProviderName;
+  modelId: string;
+  model: LanguageModel;
+}
+
+const DEFAULT_MODELS: Record<RecommendationProviderName, string> = {
+  openai: "gpt-4.1-mini",
+  "openai-compatible": "llama3.1",
+  fixture: "fixture-v1",
+};
+
+const DEFAULT_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+
+const isProviderName = (value: string): value is RecommendationProviderName =>
+  Object.hasOwn(DEFAULT_MODELS, value);
+
+export const getRecommendationModel = (): RecommendationModel => {
+  const provider = process.env.RECOMMENDATION_PROVIDER || "openai";
+
+  if (!isProviderName(provider)) {
+    throw new RecommendationConfigError(
+      `Unknown recommendation provider "${provider}"`
+    );
+  }
+
+  const modelId = process.env.RECOMMENDATION_MODEL || DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case "openai":
+      return { provider, modelId, model: openai(modelId) };
+    case "openai-compatible": {
+      const compatible = createOpenAI({
+        name: "openai-compatible",
+        baseURL:
+          process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_COMPATIBLE_BASE_URL,
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        compatibility: "compatible",
+      });
+      return { provider, modelId, model: compatible(modelId) };
+    }
+    case "fixture":
+      return { provider, modelId, model: createFixtureModel(modelId) };
+  }
+};
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deleteRecommendationUsage,
+  getRecommendationUsageSince,
+  getUserByEmail,
+  recordRecommendationUsage,
+} from "@/lib/db-utils";
+import { RecommendationQuotaError } from "./errors";
+import { consumeRecommendationQuota, getRecommendationQuota } from "./quota";
+
+vi.mock("@/lib/db-utils", () => ({
+  deleteRecommendationUsage: vi.fn(),
+  getRecommendationUsageSince: vi.fn(),
+  getUserByEmail: vi.fn(),
+  recordRecommendationUsage: vi.fn(),
+}));
+
+const NOW = new Date("2025-06-01T12:00:00Z").getTime();
+const SECOND = 1000;
+const DAY = 24 * 60 * 60 * SECOND;
+const EMAIL = "user@example.com";
+
+type User = NonNullable<Awaited<ReturnType<typeof getUserByEmail>>>;
+type Usage = Awaited<ReturnType<typeof getRecommendationUsageSince>>;
+
+const usageAt = (...agesMs: number[]): Usage =>
+  agesMs.map((age, index) => ({
+    id: `usage-${index}`,
+    createdAt: new Date(NOW - age),
+  }));
+
+// Free tier: 20 generations per 24 hours, 15 seconds apart
+const mockUser = (tier: User["tier"] = "free") =>
+  vi.mocked(getUserByEmail).mockResolvedValue({ id: "user-1", tier } as User);
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+  mockUser();
+  vi.mocked(getRecommendationUsageSince).mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.clearAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("getRecommendationQuota", () => {
+  it("reads usage from the last 24 hours", async () => {
+    const quota = await getRecommendationQuota(EMAIL);
+
+    expect(getRecommendationUsageSince).toHaveBeenCalledWith(
+      "user-1",
+      new Date(NOW - DAY)
+    );
+    expect(quota).toEqual({
+      tier: "free",
+      limit: 20,
+      used: 0,
+      remaining: 20,
+      availableAt: null,
+    });
+  });
+
+  it("throttles until the minimum interval after the latest generation", async () => {
+    vi.mocked(getRecommendationUsageSince).mockResolvedValue(
+      usageAt(5 * SECOND, 2 * 60 * 60 * SECOND)
+    );
+
+    expect(await getRecommendationQuota(EMAIL)).toMatchObject({
+      used: 2,
+      remaining: 18,
+      availableAt: new Date(NOW + 10 * SECOND).toISOString(),
+    });
+  });
+
+  it("allows a generation once the interval has passed", async () => {
+    vi.mocked(getRecommendationUsageSince).mockResolvedValue(
+      usageAt(15 * SECOND)
+    );
+
+    expect(await getRecommendationQuota(EMAIL)).toMatchObject({
+      remaining: 19,
+      availableAt: null,
+    });
+  });
+
+  it("blocks a full window until its oldest counted generation ages out", async () => {
+    // Newest first: one an hour for the last 20 hours
+    const ages = Array.from({ length: 20 }, (_, hour) => (hour + 1) * 3600000);
+    vi.mocked(getRecommendationUsageSince).mockResolvedValue(usageAt(...ages));
+
+    expect(await getRecommendationQuota(EMAIL)).toMatchObject({
+      used: 20,
+      remaining: 0,
+      availableAt: new Date(NOW - 20 * 3600000 + DAY).toISOString(),
+    });
+  });
+
+  it("uses the tier's limit and the environment override", async () => {
+    mockUser("pro");
+    expect(await getRecommendationQuota(EMAIL)).toMatchObject({ limit: 200 });
+
+    mockUser("free");
+    vi.stubEnv("RECOMMENDATION_DAILY_LIMIT_FREE", "0");
+    expect(await getRecommendationQuota(EMAIL)).toMatchObject({
+      limit: 0,
+      remaining: 0,
+      availableAt: new Date(NOW + DAY).toISOString(),
+    });
+  });
+
+  it("returns null for unknown users", async () => {
+    vi.mocked(getUserByEmail).mockResolvedValue(null);
+
+    expect(await getRecommendationQuota(EMAIL)).toBeNull();
+  });
+});
+
+describe("consumeRecommendationQuota", () => {
+  const recorded = { id: "new", createdAt: new Date(NOW) };
+
+  beforeEach(() => {
+    vi.mocked(recordRecommendationUsage).mockResolvedValue({
+      ...recorded,
+      userId: "user-1",
+      kind: "generation",
+    } as Awaited<ReturnType<typeof recordRecommendationUsage>>);
+  });
+
+  it("records a generation and refunds it on request", async () => {
+    vi.mocked(getRecommendationUsageSince)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([recorded]);
+
+    const consumed = await consumeRecommendationQuota(EMAIL, "generation");
+
+    expect(recordRecommendationUsage).toHaveBeenCalledWith(
+      "user-1",
+      "generation"
+    );
+    expect(consumed?.quota).toMatchObject({ used: 1, remaining: 19 });
+
+    await consumed?.refund();
+    expect(deleteRecommendationUsage).toHaveBeenCalledWith("new");
+  });
+
+  it("throws without recording while throttled", async () => {
+    vi.mocked(getRecommendationUsageSince).mockResolvedValue(
+      usageAt(5 * SECOND)
+    );
+
+    await expect(
+      consumeRecommendationQuota(EMAIL, "generation")
+    ).rejects.toBeInstanceOf(RecommendationQuotaError);
+    expect(recordRecommendationUsage).not.toHaveBeenCalled();
+  });
+
+  it("backs out when a concurrent request was recorded first", async () => {
+    const concurrent = { id: "other", createdAt: new Date(NOW - 100) };
+    vi.mocked(getRecommendationUsageSince)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([recorded, concurrent]);
+
+    await expect(
+      consumeRecommendationQuota(EMAIL, "generation")
+    ).rejects.toBeInstanceOf(RecommendationQuotaError);
+    expect(deleteRecommendationUsage).toHaveBeenCalledWith("new");
+  });
+
+  it("doesn't count a resumed run again", async () => {
+    vi.mocked(getRecommendationUsageSince).mockResolvedValue(
+      usageAt(5 * SECOND)
+    );
+
+    const consumed = await consumeRecommendationQuota(EMAIL, "generation", {
+      resumeRun: { runId: "run-1", remaining: 3 },
+    });
+
+    expect(recordRecommendationUsage).not.toHaveBeenCalled();
+    expect(consumed?.quota.used).toBe(1);
+  });
+});
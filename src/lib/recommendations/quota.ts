@@ -0,0 +1,142 @@
+import type {
+  RecommendationQuota,
+  RecommendationUsageKind,
+  UserTier,
+} from "@/types/movie";
+import {
+  deleteRecommendationUsage,
+  getRecommendationUsageSince,
+  getUserByEmail,
+  recordRecommendationUsage,
+} from "@/lib/db-utils";
+import { RecommendationQuotaError } from "./errors";
+import type { ResumableRun } from "./runs";
+
+// Per-user recommendation quota and throttling
+// Every generation and refine turn costs a model call and around ten TMDB
+// requests, so each tier gets a number of them per rolling 24 hours and a
+// minimum gap between them. Usage lives in Postgres so the limits hold across
+// server instances. RECOMMENDATION_DAILY_LIMIT_<TIER> (e.g.
+// RECOMMENDATION_DAILY_LIMIT_FREE=5) overrides a tier's daily limit.
+// When usage can't be read or written, requests are let through
+
+interface QuotaLimits {
+  dailyLimit: number;
+  minIntervalSeconds: number;
+}
+
+export const QUOTA_TIERS: Record<UserTier, QuotaLimits> = {
+  free: { dailyLimit: 20, minIntervalSeconds: 15 },
+  pro: { dailyLimit: 200, minIntervalSeconds: 5 },
+};
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type UsageRow = { id: string; createdAt: Date };
+
+const getLimits = (tier: UserTier): QuotaLimits => {
+  const limits = QUOTA_TIERS[tier] || QUOTA_TIERS.free;
+  const override = parseInt(
+    process.env[`RECOMMENDATION_DAILY_LIMIT_${tier.toUpperCase()}`] || "",
+    10
+  );
+  return isNaN(override) ? limits : { ...limits, dailyLimit: override };
+};
+
+// usage is newest first, all within the quota window
+const toQuota = (
+  tier: UserTier,
+  usage: UsageRow[],
+  now: number
+): RecommendationQuota => {
+  const { dailyLimit, minIntervalSeconds } = getLimits(tier);
+
+  let availableAt: number | null = null;
+  if (usage.length >= dailyLimit) {
+    // Free again once enough of the window's generations have aged out;
+    // a daily limit of 0 turns generation off for the tier
+    const blocking = usage[dailyLimit - 1];
+    availableAt = blocking
+      ? blocking.createdAt.getTime() + QUOTA_WINDOW_MS
+      : now + QUOTA_WINDOW_MS;
+  } else if (usage.length > 0) {
+    const throttledUntil =
+      usage[0].createdAt.getTime() + minIntervalSeconds * 1000;
+    if (throttledUntil > now) availableAt = throttledUntil;
+  }
+
+  return {
+    tier,
+    limit: dailyLimit,
+    used: Math.min(usage.length, dailyLimit),
+    remaining: Math.max(dailyLimit - usage.length, 0),
+    availableAt: availableAt ? new Date(availableAt).toISOString() : null,
+  };
+};
+
+const loadUsage = (userId: string, now: number) =>
+  getRecommendationUsageSince(userId, new Date(now - QUOTA_WINDOW_MS));
+
+export const getRecommendationQuota = async (
+  userEmail: string
+): Promise<RecommendationQuota | null> => {
+  const user = await getUserByEmail(userEmail);
+  if (!user) return null;
+
+  const now = Date.now();
+  return toQuota(user.tier, await loadUsage(user.id, now), now);
+};
+
+// The quota after a generation was counted. refund() takes the generation
+// back, for requests that fail before any work has started
+export interface ConsumedQuota {
+  quota: RecommendationQuota;
+  refund: () => Promise<void>;
+}
+
+const noRefund = async () => {};
+
+// Count one generation against the user's quota, or throw
+// RecommendationQuotaError when it isn't allowed yet. A resumed stream passes
+// its run (see getResumableRun) so reconnecting doesn't cost a second
+// generation
+export const consumeRecommendationQuota = async (
+  userEmail: string,
+  kind: RecommendationUsageKind,
+  { resumeRun }: { resumeRun?: ResumableRun } = {}
+): Promise<ConsumedQuota | null> => {
+  const user = await getUserByEmail(userEmail);
+  if (!user) return null;
+
+  const now = Date.now();
+
+  if (resumeRun) {
+    return {
+      quota: toQuota(user.tier, await loadUsage(user.id, now), now),
+      refund: noRefund,
+    };
+  }
+
+  const before = toQuota(user.tier, await loadUsage(user.id, now), now);
+  if (before.availableAt) throw new RecommendationQuotaError(before);
+
+  const recorded = await recordRecommendationUsage(user.id, kind);
+  if (!recorded) return { quota: before, refund: noRefund };
+
+  // Requests that passed the check at the same time are settled by order:
+  // whichever came later backs out
+  const usage = await loadUsage(user.id, now);
+  const earlier = usage.filter(
+    (row) => row.id !== recorded.id && row.createdAt <= recorded.createdAt
+  );
+  const after = toQuota(user.tier, earlier, recorded.createdAt.getTime());
+  if (after.availableAt) {
+    await deleteRecommendationUsage(recorded.id);
+    throw new RecommendationQuotaError(after);
+  }
+
+  return {
+    quota: toQuota(user.tier, usage, Date.now()),
+    refund: () => deleteRecommendationUsage(recorded.id),
+  };
+};
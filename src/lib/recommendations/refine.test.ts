@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import { MOVIE_GENRES } from "./constraints";
+import { mergeConstraints } from "./refine";
+import type { AIRefinement } from "./schema";
+
+// refine pulls in the pipeline, which opens the database client on import
+vi.mock("@/db/drizzle", () => ({ db: {} }));
+
+const { Comedy, Drama, Horror } = MOVIE_GENRES;
+
+const refinement = (overrides: Partial<AIRefinement> = {}): AIRefinement => ({
+  reply: "Here you go",
+  mode: "replace",
+  ...overrides,
+});
+
+describe("mergeConstraints", () => {
+  it("keeps current constraints the refinement doesn't mention", () => {
+    expect(
+      mergeConstraints(
+        { mood: "funny", maxRuntime: 120, language: "fr" },
+        refinement({ maxRuntime: 90 })
+      )
+    ).toEqual({
+      mood: "funny",
+      maxRuntime: 90,
+      language: "fr",
+      excludeGenres: [],
+    });
+  });
+
+  it("stores decades as their first year", () => {
+    expect(
+      mergeConstraints({}, refinement({ decadeFrom: 1984, decadeTo: 1999 }))
+    ).toMatchObject({ decadeFrom: 1980, decadeTo: 1990 });
+  });
+
+  it("lets asking for a genre lift an earlier exclusion", () => {
+    expect(
+      mergeConstraints(
+        { excludeGenres: [Horror, Comedy] },
+        refinement({ genres: ["Horror"] })
+      )
+    ).toMatchObject({ genres: [Horror], excludeGenres: [Comedy] });
+  });
+
+  it("lets excluding a genre drop it from the requested ones", () => {
+    expect(
+      mergeConstraints(
+        { genres: [Drama, Comedy], excludeGenres: [Horror] },
+        refinement({ excludeGenres: ["Comedy"] })
+      )
+    ).toMatchObject({ genres: [Drama], excludeGenres: [Horror, Comedy] });
+  });
+
+  it("starts from scratch when the refinement resets constraints", () => {
+    expect(
+      mergeConstraints(
+        { mood: "dark", genres: [Horror], streamingOnly: true },
+        refinement({ resetConstraints: true, mood: "feel_good" })
+      )
+    ).toEqual({ mood: "feel_good", excludeGenres: [] });
+  });
+
+  it("keeps the current constraints when the result is invalid", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const current = { decadeFrom: 1990, decadeTo: 2000 };
+
+    expect(mergeConstraints(current, refinement({ decadeFrom: 2015 }))).toBe(
+      current
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { generateObject, NoObjectGeneratedError, type LanguageModel } from "ai";
+import type {
+  MovieRecommendation,
+  RecommendationChatMessage,
+  RecommendationConstraints,
+  RecommendationRun,
+  RefinementMode,
+  UserMovieHistory,
+} from "@/types/movie";
+import type { SeedMovie } from "./candidates";
+import { MOVIE_GENRES } from "./constraints";
+import { RecommendationGenerationError } from "./errors";
+import { createRepairText } from "./generate";
+import { RECOMMENDATION_COUNT } from "./pipeline";
+import { buildRefinementMessages } from "./prompts";
+import { recommendationConstraintsSchema } from "./request";
+import { aiRefinementOutputSchema, type AIRefinement } from "./schema";
+import { trackLLMCall, type TelemetryContext } from "./telemetry";
+
+// "Refine these picks" chat over a recommendation run
+// The model only reads the user's message; it turns it into constraint
+// changes and seed movies, and the regular pipeline finds the new picks. That
+// keeps refinements grounded in TMDB and the user's taste profile
+
+// Picks added when the user asks for "more" without saying how many
+const ADD_COUNT = 3;
+
+export interface Refinement {
+  reply: string;
+  mode: RefinementMode;
+  count: number;
+  constraints: RecommendationConstraints;
+  // Current picks the user wants more like
+  seedMovies: SeedMovie[];
+}
+
+// The cards as they stand after every assistant turn so far
+export const getCurrentPicks = (
+  run: RecommendationRun,
+  messages: RecommendationChatMessage[]
+): MovieRecommendation[] =>
+  messages.reduce((picks, message) => {
+    // A turn that found nothing leaves the cards as they were
+    if (message.role !== "assistant" || message.recommendations.length === 0) {
+      return picks;
+    }
+    return message.mode === "add"
+      ? [...picks, ...message.recommendations]
+      : message.recommendations;
+  }, run.results);
+
+// Constraints from the latest assistant turn, or the run's own
+export const getCurrentConstraints = (
+  run: RecommendationRun,
+  messages: RecommendationChatMessage[]
+): RecommendationConstraints =>
+  messages.findLast((message) => message.constraints)?.constraints ||
+  run.inputs.constraints ||
+  {};
+
+const toGenreIds = (names?: AIRefinement["genres"]): number[] | undefined =>
+  names?.map((name) => MOVIE_GENRES[name]);
+
+// A decade is stored as its first year
+const toDecade = (year?: number | null) =>
+  year ? Math.floor(year / 10) * 10 : undefined;
+
+// Apply a refinement's constraint changes on top of the current ones
+// An invalid combination keeps the current constraints
+export const mergeConstraints = (
+  current: RecommendationConstraints,
+  refinement: AIRefinement
+): RecommendationConstraints => {
+  const base = refinement.resetConstraints ? {} : current;
+  const genres = toGenreIds(refinement.genres);
+  const excludeGenres = toGenreIds(refinement.excludeGenres);
+
+  const merged: RecommendationConstraints = {
+    ...base,
+    mood: refinement.mood ?? base.mood,
+    maxRuntime: refinement.maxRuntime ?? base.maxRuntime,
+    decadeFrom: toDecade(refinement.decadeFrom) ?? base.decadeFrom,
+    decadeTo: toDecade(refinement.decadeTo) ?? base.decadeTo,
+    language: refinement.language ?? base.language,
+    audience: refinement.audience ?? base.audience,
+    streamingOnly: refinement.streamingOnly ?? base.streamingOnly,
+    // Asking for a genre lifts an earlier exclusion of it, and the other way round
+    genres: (genres ?? base.genres)?.filter(
+      (id) => !excludeGenres?.includes(id)
+    ),
+    excludeGenres: [
+      ...new Set([...(base.excludeGenres || []), ...(excludeGenres || [])]),
+    ].filter((id) => !genres?.includes(id)),
+  };
+
+  const parsed = recommendationConstraintsSchema.safeParse(merged);
+  if (!parsed.success) {
+    console.warn("Ignoring invalid refinement constraints:", parsed.error);
+    return base;
+  }
+  return parsed.data;
+};
+
+interface InterpretRefinementOptions {
+  model: LanguageModel;
+  history: UserMovieHistory;
+  picks: MovieRecommendation[];
+  messages: RecommendationChatMessage[];
+  message: string;
+  constraints: RecommendationConstraints;
+  abortSignal?: AbortSignal;
+  telemetry?: TelemetryContext;
+}
+
+export const interpretRefinement = async ({
+  model,
+  history,
+  picks,
+  messages,
+  message,
+  constraints,
+  abortSignal,
+  telemetry,
+}: InterpretRefinementOptions): Promise<Refinement> => {
+  let refinement: AIRefinement;
+  const startedAt = Date.now();
+
+  try {
+    const { object, usage } = await generateObject({
+      model,
+      messages: buildRefinementMessages({
+        history,
+        picks,
+        conversation: messages,
+        message,
+        constraints,
+      }),
+      schema: aiRefinementOutputSchema,
+      temperature: 0.3,
+      maxTokens: 500,
+      abortSignal,
+      experimental_repairText: createRepairText("refinement"),
+    });
+    refinement = object;
+    await trackLLMCall(telemetry, {
+      model,
+      purpose: "refinement",
+      startedAt,
+      usage,
+      outcome: "ok",
+    });
+  } catch (error) {
+    await trackLLMCall(telemetry, {
+      model,
+      purpose: "refinement",
+      startedAt,
+      usage: NoObjectGeneratedError.isInstance(error) ? error.usage : undefined,
+      outcome: "failed",
+      error,
+    });
+    if (!NoObjectGeneratedError.isInstance(error)) {
+      throw new RecommendationGenerationError(
+        "The recommendation model could not be reached",
+        { cause: error }
+      );
+    }
+    // Still worth answering with a fresh set under the same constraints
+    console.warn("Refinement response was not valid JSON, starting over");
+    refinement = {
+      reply: "Here's a fresh set of picks for you.",
+      mode: "replace",
+    };
+  }
+
+  const seedMovies = (refinement.moreLike || [])
+    .map((position) => picks[position - 1])
+    .filter((pick) => pick !== undefined)
+    .map(({ id, title }) => ({ id, title }));
+
+  return {
+    reply: refinement.reply,
+    mode: refinement.mode,
+    count:
+      refinement.count ??
+      (refinement.mode === "add" ? ADD_COUNT : RECOMMENDATION_COUNT),
+    constraints: mergeConstraints(constraints, refinement),
+    seedMovies,
+  };
+};
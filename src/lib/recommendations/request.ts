@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { MOVIE_GENRES } from "./constraints";
+import { RECOMMENDATION_COUNT } from "./pipeline";
+
+// Request body for /api/recommend and /api/recommend/stream
+// The taste profile is built server-side from the database; clients may only steer generation
+
+// Mirrors RecommendationConstraints in @/types/movie
+export const recommendationConstraintsSchema = z
+  .object({
+    mood: z
+      .enum([
+        "feel_good",
+        "funny",
+        "thrilling",
+        "dark",
+        "thought_provoking",
+        "romantic",
+        "scary",
+        "epic",
+      ])
+      .optional(),
+    genres: z.array(z.number().int().positive()).max(20).optional(),
+    excludeGenres: z.array(z.number().int().positive()).max(20).optional(),
+    maxRuntime: z.number().int().min(60).max(300).optional(),
+    decadeFrom: z.number().int().min(1900).max(2020).multipleOf(10).optional(),
+    decadeTo: z.number().int().min(1900).max(2020).multipleOf(10).optional(),
+    language: z
+      .string()
+      .regex(/^[a-z]{2}$/, "Use a two-letter ISO 639-1 language code")
+      .optional(),
+    audience: z.enum(["solo", "partner", "friends", "kids"]).optional(),
+    streamingOnly: z.boolean().optional(),
+    adventurousness: z.number().int().min(0).max(100).optional(),
+  })
+  .refine(
+    ({ decadeFrom, decadeTo }) =>
+      decadeFrom === undefined ||
+      decadeTo === undefined ||
+      decadeFrom <= decadeTo,
+    { message: "decadeFrom must not be after decadeTo", path: ["decadeTo"] }
+  );
+
+export const recommendRequestSchema = z.object({
+  // How many recommendations to generate (streaming clients ask for fewer when resuming)
+  count: z.number().int().min(1).max(RECOMMENDATION_COUNT).optional(),
+  // Movies the client already received in this generation and should not get again
+  excludeMovieIds: z.array(z.number().int().positive()).max(50).optional(),
+  // Run being resumed after a dropped stream; results are added to it
+  runId: z.uuid().optional(),
+  constraints: recommendationConstraintsSchema.optional(),
+});
+
+export type RecommendRequest = z.infer<typeof recommendRequestSchema>;
+
+// Parse the request body, treating a missing body as "no steering parameters"
+export const parseRecommendRequest = async (req: Request) => {
+  const body = await req.json().catch(() => ({}));
+  return recommendRequestSchema.safeParse(body ?? {});
+};
+
+// Request body for POST /api/recommendations/[movieId]/feedback
+export const recommendationFeedbackRequestSchema = z.object({
+  feedback: z.enum(["not_interested", "seen", "added_to_watchlist"]),
+});
+
+// Run ids in recommendation history URLs
+export const recommendationRunIdSchema = z.uuid();
+
+// Job ids in /api/recommend/jobs URLs
+export const recommendationJobIdSchema = z.uuid();
+
+// Request body for POST /api/recommendations/runs/[runId]/chat
+export const recommendationChatRequestSchema = z.object({
+  message: z.string().trim().min(1).max(500),
+});
+
+// Request body for POST /api/onboarding
+const GENRE_IDS: number[] = Object.values(MOVIE_GENRES);
+
+export const onboardingGenresRequestSchema = z.object({
+  favoriteGenres: z
+    .array(
+      z
+        .number()
+        .int()
+        .refine((id) => GENRE_IDS.includes(id), "Unknown genre")
+    )
+    .max(10),
+});
@@ -0,0 +1,303 @@
+import type { PickType, RecommendationConstraints } from "@/types/movie";
+import type { AIRecommendation } from "./schema";
+import {
+  findConstraintViolation,
+  getDetailsOptions,
+  hasConstraints,
+} from "./constraints";
+import { labelPick } from "./diversity";
+import type { TasteProfile } from "./taste";
+import {
+  scoreCandidate,
+  type MatchLevel,
+  type MatchScore,
+  type ScoreFactor,
+} from "./scoring";
+import {
+  getMovieDetails,
+  searchMovies,
+  type TMDBListMovie,
+  type TMDBMovie,
+  type TMDBMovieDetails,
+} from "./tmdb";
+
+// TMDB resolution for AI-suggested titles
+// Turns each model suggestion into a recommendation backed by real TMDB data,
+// scored against the user's taste profile
+
+export interface ResolvedRecommendation extends TMDBMovie {
+  reason: string;
+  personalizedReason: string;
+  matchScore?: number;
+  matchLevel?: MatchLevel;
+  scoreBreakdown?: ScoreFactor[];
+  // How sure we are that the TMDB movie is the one the model meant (0-1);
+  // movies picked directly from TMDB are always 1
+  resolutionConfidence?: number;
+  pickType?: PickType;
+  backdrop_path?: string | null;
+  runtime?: number;
+  status?: string;
+  tagline?: string;
+  budget?: number;
+  genres?: Array<{ id: number; name: string }>;
+  production_companies?: Array<{
+    id: number;
+    name: string;
+    logo_path: string | null;
+    origin_country: string;
+  }>;
+}
+
+// Below this the match is more likely wrong than right and is dropped
+export const MIN_RESOLUTION_CONFIDENCE = 0.5;
+// Matches between the two thresholds are kept but flagged in the logs
+export const LOW_RESOLUTION_CONFIDENCE = 0.7;
+
+interface TitleMatch {
+  movie: TMDBListMovie;
+  confidence: number;
+}
+
+// Lowercase, drop accents, punctuation and a leading article
+const normalizeTitle = (title: string) =>
+  title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/^(the|a|an) /, "")
+    .trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, "");
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) =>
+    compact.slice(i, i + 2)
+  );
+};
+
+// Dice coefficient over character bigrams: 1 for identical titles
+const titleSimilarity = (a: string, b: string) => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const remaining = [...rightBigrams];
+  let overlap = 0;
+  for (const bigram of leftBigrams) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+};
+
+const yearSimilarity = (movie: TMDBListMovie, year: number) => {
+  const releaseYear = parseInt(movie.release_date?.slice(0, 4), 10);
+  if (!releaseYear) return 0;
+
+  const difference = Math.abs(releaseYear - year);
+  // Festival premieres and wide releases often straddle a new year
+  return difference === 0 ? 1 : difference === 1 ? 0.7 : 0;
+};
+
+// Score every search result by title similarity, year and popularity
+// Popularity only breaks ties between otherwise similar matches
+const rankTitleMatches = (
+  results: TMDBListMovie[],
+  title: string,
+  year?: number
+): TitleMatch[] => {
+  const maxVotes = Math.max(...results.map((movie) => movie.vote_count), 1);
+
+  return results
+    .map((movie) => {
+      const similarity = Math.max(
+        titleSimilarity(title, movie.title),
+        movie.original_title ? titleSimilarity(title, movie.original_title) : 0
+      );
+      const popularity =
+        Math.log10(movie.vote_count + 1) / Math.log10(maxVotes + 1);
+
+      const confidence = year
+        ? similarity * 0.6 +
+          yearSimilarity(movie, year) * 0.3 +
+          popularity * 0.1
+        : similarity * 0.8 + popularity * 0.2;
+
+      return { movie, confidence };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+// Adjust the confidence once credits are known: a named director either
+// confirms the match or makes it suspect
+const applyDirectorCheck = (
+  confidence: number,
+  details: TMDBMovieDetails,
+  director?: string | null
+) => {
+  if (!director || details.directors.length === 0) return confidence;
+
+  const matches = details.directors.some(
+    (candidate) => titleSimilarity(candidate.name, director) >= 0.8
+  );
+  return Math.max(0, Math.min(1, confidence + (matches ? 0.15 : -0.25)));
+};
+
+async function searchMovieByTitle(
+  aiRec: AIRecommendation
+): Promise<TitleMatch | null> {
+  // A year in the title (e.g., "Coco (2017)") is used as a hint, then stripped
+  const titleYear = aiRec.title.match(/\s*\((\d{4})\)\s*$/);
+  const cleanTitle = aiRec.title.replace(/\s*\(\d{4}\)\s*$/, "").trim();
+  const year =
+    aiRec.year ?? (titleYear ? parseInt(titleYear[1], 10) : undefined);
+
+  const results = await searchMovies(cleanTitle);
+
+  if (results.length === 0) {
+    console.warn(`No movies found for title: "${aiRec.title}"`);
+    return null;
+  }
+
+  const [bestMatch] = rankTitleMatches(results, cleanTitle, year);
+  return bestMatch;
+}
+
+// Combine TMDB details, the match score and the explanation into the
+// recommendation payload. Credits are only needed for scoring, so they stay
+// out of the API response
+export function toResolvedRecommendation(
+  details: TMDBMovieDetails,
+  match: MatchScore,
+  explanation: { reason: string; personalizedReason: string }
+): ResolvedRecommendation {
+  return {
+    id: details.id,
+    title: details.title,
+    poster_path: details.poster_path,
+    backdrop_path: details.backdrop_path,
+    release_date: details.release_date,
+    vote_average: details.vote_average,
+    vote_count: details.vote_count,
+    revenue: details.revenue,
+    popularity: details.popularity,
+    overview: details.overview,
+    runtime: details.runtime,
+    genres: details.genres,
+    reason: explanation.reason,
+    personalizedReason: explanation.personalizedReason,
+    matchScore: match.score,
+    matchLevel: match.level,
+    scoreBreakdown: match.breakdown,
+    resolutionConfidence: 1,
+    pickType: labelPick(details.vote_count, match),
+  };
+}
+
+// Resolve a single AI suggestion against TMDB, attach the model's reasons
+// and score it against the user's taste profile
+// Returns null when TMDB has no match for the suggested title, only a
+// low-confidence one, or a movie that breaks the request constraints
+export async function resolveAIRecommendation(
+  aiRec: AIRecommendation,
+  profile: TasteProfile,
+  constraints: RecommendationConstraints = {}
+): Promise<ResolvedRecommendation | null> {
+  // First search for the movie to get its ID
+  const searchResult = await searchMovieByTitle(aiRec);
+
+  if (!searchResult) {
+    return null;
+  }
+
+  const { movie } = searchResult;
+
+  // Then fetch full movie details including credits using the movie ID
+  const fullMovieDetails = await getMovieDetails(
+    movie.id,
+    getDetailsOptions(constraints)
+  );
+
+  const confidence = fullMovieDetails
+    ? applyDirectorCheck(
+        searchResult.confidence,
+        fullMovieDetails,
+        aiRec.director
+      )
+    : searchResult.confidence;
+  const suggested = aiRec.year ? `${aiRec.title} (${aiRec.year})` : aiRec.title;
+  const description = `"${suggested}" → "${movie.title}" (${
+    movie.release_date?.slice(0, 4) || "unknown year"
+  })`;
+
+  if (confidence < MIN_RESOLUTION_CONFIDENCE) {
+    console.warn(
+      `Dropping low-confidence match ${description}: ${confidence.toFixed(2)}`
+    );
+    return null;
+  }
+  if (confidence < LOW_RESOLUTION_CONFIDENCE) {
+    console.warn(`Uncertain match ${description}: ${confidence.toFixed(2)}`);
+  }
+
+  // Constraints can only be verified against full details
+  if (hasConstraints(constraints)) {
+    const violation = fullMovieDetails
+      ? findConstraintViolation(fullMovieDetails, constraints)
+      : "details unavailable";
+    if (violation) {
+      console.warn(`Dropping ${description}: ${violation}`);
+      return null;
+    }
+  }
+
+  const resolutionConfidence = Math.round(confidence * 100) / 100;
+
+  if (fullMovieDetails) {
+    return {
+      ...toResolvedRecommendation(
+        fullMovieDetails, // This includes revenue data
+        scoreCandidate(profile, fullMovieDetails),
+        aiRec
+      ),
+      resolutionConfidence,
+    };
+  }
+
+  // Fallback to search result if getMovieDetails fails; only audience
+  // signals can be scored without genres and credits
+  const match = scoreCandidate(profile, {
+    ...movie,
+    genres: [],
+    directors: [],
+    cast: [],
+  });
+
+  return {
+    id: movie.id,
+    title: movie.title,
+    poster_path: movie.poster_path,
+    release_date: movie.release_date,
+    vote_average: movie.vote_average,
+    vote_count: movie.vote_count,
+    popularity: movie.popularity,
+    overview: movie.overview,
+    reason: aiRec.reason,
+    personalizedReason: aiRec.personalizedReason,
+    matchScore: match.score,
+    matchLevel: match.level,
+    scoreBreakdown: match.breakdown,
+    resolutionConfidence,
+    pickType: labelPick(movie.vote_count, match),
+  };
+}
@@ -0,0 +1,159 @@
+import type {
+  MovieRecommendation,
+  RecommendationConstraints,
+  RecommendationRunStatus,
+  RecommendationRunTrigger,
+  UserMovieHistory,
+} from "@/types/movie";
+import {
+  completeRecommendationRun,
+  createRecommendationRun,
+  getRecommendationRun,
+} from "@/lib/db-utils";
+import { RunNotResumableError } from "./errors";
+import { getRecommendationModel } from "./providers";
+import { getPromptVersion } from "./prompts";
+import type { ResolvedRecommendation } from "./resolve";
+
+// Recommendation run tracking
+// Each generation is recorded as a run with its inputs, model, prompt version,
+// latency and results, so the history keeps every batch intact.
+// Tracking never fails a generation: the db helpers log and swallow errors
+
+interface StartRunOptions {
+  userEmail: string;
+  history: UserMovieHistory;
+  count: number;
+  excludeMovieIds?: number[];
+  constraints?: RecommendationConstraints;
+  // Resumed streams continue the run they started
+  runId?: string;
+  trigger?: RecommendationRunTrigger;
+}
+
+export interface RecommendationRunTracker {
+  // null when the run couldn't be recorded
+  runId: string | null;
+  finish: (
+    results: ResolvedRecommendation[],
+    status: RecommendationRunStatus,
+    error?: unknown
+  ) => Promise<void>;
+}
+
+// A dropped stream can be resumed within this long after its run started
+const RESUME_WINDOW_MS = 5 * 60 * 1000;
+// Runs a dropped stream leaves behind: still going, or cancelled by the
+// closed connection
+const RESUMABLE_STATUSES: RecommendationRunStatus[] = ["running", "cancelled"];
+
+// A run a resumed stream may continue, and how many picks it still owes
+export interface ResumableRun {
+  runId: string;
+  remaining: number;
+}
+
+// Throw RunNotResumableError unless the run can be resumed, so a run id
+// can't be replayed for free generations
+export const getResumableRun = async (
+  userEmail: string,
+  runId: string
+): Promise<ResumableRun> => {
+  const run = await getRecommendationRun(userEmail, runId);
+  const remaining = run ? run.inputs.count - run.results.length : 0;
+
+  if (
+    !run ||
+    !RESUMABLE_STATUSES.includes(run.status) ||
+    Date.now() - new Date(run.createdAt).getTime() > RESUME_WINDOW_MS ||
+    remaining <= 0
+  ) {
+    throw new RunNotResumableError();
+  }
+
+  return { runId: run.id, remaining };
+};
+
+// A misconfigured provider fails the generation itself; the run still records
+// which provider was asked for
+const describeModel = () => {
+  try {
+    const { provider, modelId } = getRecommendationModel();
+    return { provider, model: modelId };
+  } catch {
+    return {
+      provider: process.env.RECOMMENDATION_PROVIDER || "openai",
+      model: "unknown",
+    };
+  }
+};
+
+// Only what the history view needs; credits and companies stay out
+export const toRunResult = (
+  rec: ResolvedRecommendation
+): MovieRecommendation => ({
+  id: rec.id,
+  title: rec.title,
+  poster_path: rec.poster_path,
+  release_date: rec.release_date,
+  overview: rec.overview || "",
+  vote_average: rec.vote_average,
+  vote_count: rec.vote_count,
+  reason: rec.reason,
+  personalizedReason: rec.personalizedReason,
+  matchScore: rec.matchScore,
+  matchLevel: rec.matchLevel,
+  scoreBreakdown: rec.scoreBreakdown,
+  resolutionConfidence: rec.resolutionConfidence,
+  pickType: rec.pickType,
+});
+
+export const startRecommendationRun = async ({
+  userEmail,
+  history,
+  count,
+  excludeMovieIds,
+  constraints,
+  runId,
+  trigger,
+}: StartRunOptions): Promise<RecommendationRunTracker> => {
+  const startedAt = Date.now();
+
+  const existingRun = runId
+    ? await getRecommendationRun(userEmail, runId)
+    : null;
+  const run =
+    existingRun ||
+    (await createRecommendationRun(userEmail, {
+      trigger,
+      inputs: {
+        count,
+        excludeMovieIds,
+        constraints,
+        ratedCount: history.ratedMovies.length,
+        wantToWatchCount: history.wantToWatchList.length,
+        watchedCount: history.watchedMovies.length,
+      },
+      ...describeModel(),
+      promptVersion: getPromptVersion(),
+    }));
+
+  return {
+    runId: run?.id ?? null,
+    finish: async (results, status, error) => {
+      if (!run) return;
+
+      await completeRecommendationRun(userEmail, run.id, {
+        status,
+        latencyMs: Date.now() - startedAt,
+        results: results.map(toRunResult),
+        error:
+          error === undefined
+            ? null
+            : error instanceof Error
+              ? error.message
+              : String(error),
+      });
+    },
+  };
+};
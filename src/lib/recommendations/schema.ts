@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { jsonSchema } from "ai";
+import { GENRE_NAMES } from "./constraints";
+
+// Structured output schemas for AI-generated recommendations and explanations
+// The model is given the full item schema, but only the envelope is validated strictly
+// so that one malformed item doesn't throw away the rest of the batch
+
+export const aiRecommendationSchema = z.object({
+  title: z.string().trim().min(1),
+  // Optional hints that disambiguate remakes and shared titles during TMDB resolution
+  year: z.number().int().min(1870).max(2100).nullish(),
+  director: z.string().trim().min(1).nullish(),
+  reason: z.string().trim().min(1),
+  personalizedReason: z.string().trim().min(1),
+});
+
+export type AIRecommendation = z.infer<typeof aiRecommendationSchema>;
+
+// Explanations for TMDB candidates the pipeline already picked
+export const aiExplanationSchema = z.object({
+  id: z.number().int().positive(),
+  reason: z.string().trim().min(1),
+  personalizedReason: z.string().trim().min(1),
+});
+
+export type AIExplanation = z.infer<typeof aiExplanationSchema>;
+
+// How the model reads a "refine these picks" chat message
+// Constraint fields are changes for this turn; null leaves them as they were
+export const aiRefinementSchema = z.object({
+  reply: z.string().trim().min(1),
+  mode: z.enum(["replace", "add"]),
+  count: z.number().int().min(1).max(5).nullish(),
+  // Positions (#1, #2, ...) of current picks the user wants more like
+  moreLike: z.array(z.number().int().min(1)).max(5).nullish(),
+  // Drop every earlier constraint before applying this turn's
+  resetConstraints: z.boolean().nullish(),
+  mood: z
+    .enum([
+      "feel_good",
+      "funny",
+      "thrilling",
+      "dark",
+      "thought_provoking",
+      "romantic",
+      "scary",
+      "epic",
+    ])
+    .nullish(),
+  genres: z.array(z.enum(GENRE_NAMES)).nullish(),
+  excludeGenres: z.array(z.enum(GENRE_NAMES)).nullish(),
+  maxRuntime: z.number().int().min(60).max(300).nullish(),
+  decadeFrom: z.number().int().min(1900).max(2029).nullish(),
+  decadeTo: z.number().int().min(1900).max(2029).nullish(),
+  language: z
+    .string()
+    .regex(/^[a-z]{2}$/)
+    .nullish(),
+  audience: z.enum(["solo", "partner", "friends", "kids"]).nullish(),
+  streamingOnly: z.boolean().nullish(),
+});
+
+export type AIRefinement = z.infer<typeof aiRefinementSchema>;
+
+// zod v4 schemas aren't understood by the AI SDK's zodSchema() helper,
+// so the JSON schema is generated with zod's own converter instead
+const createOutputSchema = <K extends string>(
+  key: K,
+  itemSchema: z.ZodType
+) => {
+  const envelopeSchema = z.object({ [key]: z.array(z.unknown()) }) as z.ZodType<
+    Record<K, unknown[]>
+  >;
+
+  return jsonSchema<Record<K, unknown[]>>(
+    z.toJSONSchema(z.object({ [key]: z.array(itemSchema) }), {
+      target: "draft-7",
+    }) as Parameters<typeof jsonSchema>[0],
+    {
+      validate: (value) => {
+        const result = envelopeSchema.safeParse(value);
+        return result.success
+          ? { success: true, value: result.data }
+          : { success: false, error: result.error };
+      },
+    }
+  );
+};
+
+export const aiRecommendationOutputSchema = createOutputSchema(
+  "recommendations",
+  aiRecommendationSchema
+);
+
+export const aiExplanationOutputSchema = createOutputSchema(
+  "explanations",
+  aiExplanationSchema
+);
+
+// A single object, so it is validated as a whole
+export const aiRefinementOutputSchema = jsonSchema<AIRefinement>(
+  z.toJSONSchema(aiRefinementSchema, {
+    target: "draft-7",
+  }) as Parameters<typeof jsonSchema>[0],
+  {
+    validate: (value) => {
+      const result = aiRefinementSchema.safeParse(value);
+      return result.success
+        ? { success: true, value: result.data }
+        : { success: false, error: result.error };
+    },
+  }
+);
+
+// Split raw model items into valid items and rejected items
+export const partitionItems = <T>(schema: z.ZodType<T>, items: unknown[]) => {
+  const valid: T[] = [];
+  const invalid: Array<{ item: unknown; issues: string[] }> = [];
+
+  for (const item of items) {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      invalid.push({
+        item,
+        issues: result.error.issues.map(
+          (issue) => `${issue.path.join(".") || "item"}: ${issue.message}`
+        ),
+      });
+    }
+  }
+
+  return { valid, invalid };
+};
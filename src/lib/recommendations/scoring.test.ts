@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  BASE_SCORE,
+  getMatchLevel,
+  scoreCandidate,
+  type ScoringCandidate,
+} from "./scoring";
+import type { Affinity, TasteProfile } from "./taste";
+
+const affinity = (name: string, score: number): Affinity => ({
+  name,
+  score,
+  count: 1,
+});
+
+const createProfile = (
+  overrides: Partial<TasteProfile> = {}
+): TasteProfile => ({
+  ratedCount: 0,
+  genres: new Map(),
+  directors: new Map(),
+  cast: new Map(),
+  decades: new Map(),
+  ...overrides,
+});
+
+// An average movie that no audience factor applies to
+const createCandidate = (
+  overrides: Partial<ScoringCandidate> = {}
+): ScoringCandidate => ({
+  id: 1,
+  title: "Candidate",
+  genres: [],
+  directors: [],
+  cast: [],
+  vote_average: 6.5,
+  vote_count: 300,
+  ...overrides,
+});
+
+const sumOf = (candidate: ScoringCandidate, profile: TasteProfile) =>
+  scoreCandidate(profile, candidate).breakdown.reduce(
+    (sum, factor) => sum + factor.points,
+    BASE_SCORE
+  );
+
+describe("scoreCandidate", () => {
+  it("starts at the baseline when nothing applies", () => {
+    expect(scoreCandidate(createProfile(), createCandidate())).toEqual({
+      score: BASE_SCORE,
+      level: "MAYBE",
+      breakdown: [],
+    });
+  });
+
+  it("adds up taste and audience factors into the score", () => {
+    const profile = createProfile({
+      genres: new Map([[18, affinity("Drama", 0.5)]]),
+      directors: new Map([[7, affinity("Greta Gerwig", 1)]]),
+    });
+    const candidate = createCandidate({
+      genres: [{ id: 18, name: "Drama" }],
+      directors: [{ id: 7, name: "Greta Gerwig" }],
+      vote_average: 7.8,
+      vote_count: 2000,
+    });
+
+    const match = scoreCandidate(profile, candidate);
+
+    expect(match.breakdown).toEqual([
+      expect.objectContaining({ factor: "genre", points: 20 }),
+      // 20 points, capped at the director maximum
+      expect.objectContaining({ factor: "director", points: 15 }),
+      expect.objectContaining({ factor: "quality", points: 10 }),
+    ]);
+    expect(match.score).toBe(95);
+    expect(match.level).toBe("LOVE IT");
+  });
+
+  it("subtracts disliked genres and low vote counts", () => {
+    const profile = createProfile({
+      genres: new Map([[27, affinity("Horror", -1)]]),
+    });
+    const candidate = createCandidate({
+      genres: [{ id: 27 }],
+      vote_count: 40,
+    });
+
+    const match = scoreCandidate(profile, candidate);
+
+    expect(match.breakdown.map((factor) => factor.points)).toEqual([-25, -10]);
+    expect(match.breakdown[0].label).toBe(
+      "Genres you tend to rate lower: Horror"
+    );
+    expect(match.score).toBe(15);
+    expect(match.level).toBe("RISKY");
+  });
+
+  it("caps the seed bonus and keeps the score within 0-100", () => {
+    const profile = createProfile({
+      genres: new Map([[18, affinity("Drama", 1)]]),
+      directors: new Map([[7, affinity("Director", 1)]]),
+      cast: new Map([[9, affinity("Actor", 1)]]),
+    });
+    const candidate = createCandidate({
+      genres: [{ id: 18 }],
+      directors: [{ id: 7, name: "Director" }],
+      cast: [{ id: 9, name: "Actor" }],
+      vote_average: 8.5,
+      vote_count: 20000,
+      popularity: 500,
+      seeds: [
+        { title: "A", rating: 9 },
+        { title: "B", rating: 10 },
+        { title: "C" },
+        { title: "D", rating: 8 },
+      ],
+    });
+
+    const match = scoreCandidate(profile, candidate);
+    const seeds = match.breakdown.find((factor) => factor.factor === "similar");
+
+    expect(seeds).toEqual({
+      factor: "similar",
+      label:
+        "Recommended for fans of B (you rated it 10/10) and 3 more of your favorites",
+      points: 12,
+    });
+    expect(sumOf(candidate, profile)).toBeGreaterThan(100);
+    expect(match.score).toBe(100);
+  });
+
+  it("rewards runtimes close to the preferred one and penalizes far ones", () => {
+    const profile = createProfile({ preferredRuntime: 110 });
+
+    const close = scoreCandidate(profile, createCandidate({ runtime: 120 }));
+    const long = scoreCandidate(profile, createCandidate({ runtime: 180 }));
+    const between = scoreCandidate(profile, createCandidate({ runtime: 140 }));
+
+    expect(close.breakdown).toEqual([
+      expect.objectContaining({ factor: "runtime", points: 3 }),
+    ]);
+    expect(long.breakdown).toEqual([
+      expect.objectContaining({ factor: "runtime", points: -5 }),
+    ]);
+    expect(between.breakdown).toEqual([]);
+  });
+});
+
+describe("getMatchLevel", () => {
+  it.each([
+    [100, "LOVE IT"],
+    [75, "LOVE IT"],
+    [74, "LIKE IT"],
+    [60, "LIKE IT"],
+    [59, "MAYBE"],
+    [45, "MAYBE"],
+    [44, "RISKY"],
+    [0, "RISKY"],
+  ])("maps %i to %s", (score, level) => {
+    expect(getMatchLevel(score)).toBe(level);
+  });
+});
@@ -0,0 +1,247 @@
+import type { MatchLevel, ScoreFactor } from "@/types/movie";
+import type { Affinity, TasteMovie, TasteProfile } from "./taste";
+
+// Personalized match scoring
+// Starts every candidate at a neutral baseline and adds or subtracts points
+// for each factor, so the breakdown always adds up to the final score
+
+export type { MatchLevel, ScoreFactor };
+
+export interface MatchScore {
+  score: number;
+  level: MatchLevel;
+  breakdown: ScoreFactor[];
+}
+
+export interface ScoringCandidate extends TasteMovie {
+  vote_average: number;
+  vote_count: number;
+  popularity?: number;
+  // Movies the user loved that led TMDB to suggest this candidate
+  // rating is missing for seeds the user asked for but never rated
+  seeds?: Array<{ title: string; rating?: number }>;
+}
+
+export const BASE_SCORE = 50;
+
+export const getDecade = (year: number) => Math.floor(year / 10) * 10;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+const describeExample = (affinity: Affinity) =>
+  affinity.example
+    ? ` (you rated ${affinity.example.title} ${affinity.example.rating}/10)`
+    : "";
+
+const scoreGenres = (
+  profile: TasteProfile,
+  candidate: ScoringCandidate
+): ScoreFactor | null => {
+  if (candidate.genres.length === 0 || profile.genres.size === 0) return null;
+
+  const matches = candidate.genres.map((genre) => ({
+    name: genre.name || profile.genres.get(genre.id)?.name || "",
+    score: profile.genres.get(genre.id)?.score ?? 0,
+  }));
+  const average =
+    matches.reduce((sum, match) => sum + match.score, 0) / matches.length;
+  const points = Math.round(clamp(average * 40, -25, 25));
+  if (points === 0) return null;
+
+  const names = matches
+    .filter(
+      (match) => match.name && Math.sign(match.score) === Math.sign(points)
+    )
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .slice(0, 3)
+    .map((match) => match.name);
+
+  return {
+    factor: "genre",
+    label:
+      points > 0
+        ? `Genre overlap with movies you love: ${names.join(", ")}`
+        : `Genres you tend to rate lower: ${names.join(", ")}`,
+    points,
+  };
+};
+
+const scoreDirector = (
+  profile: TasteProfile,
+  candidate: ScoringCandidate
+): ScoreFactor | null => {
+  const known = candidate.directors
+    .map((director) => profile.directors.get(director.id))
+    .filter((affinity): affinity is Affinity => !!affinity)
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+  if (known.length === 0) return null;
+
+  const [director] = known;
+  const points = Math.round(clamp(director.score * 20, -15, 15));
+  if (points === 0) return null;
+
+  return {
+    factor: "director",
+    label: `Directed by ${director.name}${describeExample(director)}`,
+    points,
+  };
+};
+
+const scoreCast = (
+  profile: TasteProfile,
+  candidate: ScoringCandidate
+): ScoreFactor | null => {
+  const known = candidate.cast
+    .map((actor) => profile.cast.get(actor.id))
+    .filter((affinity): affinity is Affinity => !!affinity)
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+    .slice(0, 2);
+  if (known.length === 0) return null;
+
+  const total = known.reduce((sum, actor) => sum + actor.score, 0);
+  const points = Math.round(clamp(total * 10, -10, 10));
+  if (points === 0) return null;
+
+  return {
+    factor: "cast",
+    label: `Stars ${known[0].name}${describeExample(known[0])}`,
+    points,
+  };
+};
+
+const scoreEra = (
+  profile: TasteProfile,
+  candidate: ScoringCandidate
+): ScoreFactor | null => {
+  if (!candidate.releaseYear) return null;
+
+  const decade = profile.decades.get(getDecade(candidate.releaseYear));
+  if (!decade) return null;
+
+  const points = Math.round(clamp(decade.score * 10, -5, 5));
+  if (points === 0) return null;
+
+  return {
+    factor: "era",
+    label:
+      points > 0
+        ? `From the ${decade.name}, an era you rate highly`
+        : `From the ${decade.name}, an era you rate lower`,
+    points,
+  };
+};
+
+const scoreRuntime = (
+  profile: TasteProfile,
+  candidate: ScoringCandidate
+): ScoreFactor | null => {
+  if (!candidate.runtime || !profile.preferredRuntime) return null;
+
+  const difference = candidate.runtime - profile.preferredRuntime;
+  if (Math.abs(difference) <= 20) {
+    return {
+      factor: "runtime",
+      label: `Runtime (${candidate.runtime} min) close to what you enjoy`,
+      points: 3,
+    };
+  }
+  if (Math.abs(difference) >= 45) {
+    return {
+      factor: "runtime",
+      label: `${difference > 0 ? "Much longer" : "Much shorter"} than the movies you usually enjoy`,
+      points: -5,
+    };
+  }
+  return null;
+};
+
+const scoreSeeds = (candidate: ScoringCandidate): ScoreFactor | null => {
+  if (!candidate.seeds || candidate.seeds.length === 0) return null;
+
+  const [best] = [...candidate.seeds].sort(
+    (a, b) => (b.rating ?? 0) - (a.rating ?? 0)
+  );
+  const others = candidate.seeds.length - 1;
+
+  return {
+    factor: "similar",
+    label: `Recommended for fans of ${best.title}${
+      best.rating ? ` (you rated it ${best.rating}/10)` : ""
+    }${others > 0 ? ` and ${others} more of your favorites` : ""}`,
+    points: Math.min(candidate.seeds.length * 4, 12),
+  };
+};
+
+// Audience signals apply to everyone, including users without ratings yet
+const scoreQuality = (candidate: ScoringCandidate): ScoreFactor[] => {
+  const { vote_average, vote_count, popularity } = candidate;
+  const factors: ScoreFactor[] = [];
+  const rating = vote_average.toFixed(1);
+
+  if (vote_count < 100) {
+    factors.push({
+      factor: "quality",
+      label: `Low vote count (${vote_count.toLocaleString()} ratings)`,
+      points: -10,
+    });
+  } else if (vote_average >= 7.5 && vote_count >= 1000) {
+    factors.push({
+      factor: "quality",
+      label: `Highly rated by audiences (${rating}/10)`,
+      points: 10,
+    });
+  } else if (vote_average >= 7.0 && vote_count >= 500) {
+    factors.push({
+      factor: "quality",
+      label: `Well received by audiences (${rating}/10)`,
+      points: 6,
+    });
+  } else if (vote_average < 6.0) {
+    factors.push({
+      factor: "quality",
+      label: `Mixed audience reviews (${rating}/10)`,
+      points: -8,
+    });
+  }
+
+  if (popularity && popularity > 100) {
+    factors.push({
+      factor: "popularity",
+      label: "Currently trending",
+      points: 5,
+    });
+  }
+
+  return factors;
+};
+
+export const getMatchLevel = (score: number): MatchLevel => {
+  if (score >= 75) return "LOVE IT";
+  if (score >= 60) return "LIKE IT";
+  if (score >= 45) return "MAYBE";
+  return "RISKY";
+};
+
+export const scoreCandidate = (
+  profile: TasteProfile,
+  candidate: ScoringCandidate
+): MatchScore => {
+  const breakdown = [
+    scoreGenres(profile, candidate),
+    scoreDirector(profile, candidate),
+    scoreCast(profile, candidate),
+    scoreEra(profile, candidate),
+    scoreRuntime(profile, candidate),
+    scoreSeeds(candidate),
+    ...scoreQuality(candidate),
+  ].filter((factor): factor is ScoreFactor => factor !== null);
+
+  const score = clamp(
+    BASE_SCORE + breakdown.reduce((sum, factor) => sum + factor.points, 0),
+    0,
+    100
+  );
+
+  return { score, level: getMatchLevel(score), breakdown };
+};
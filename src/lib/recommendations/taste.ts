@@ -0,0 +1,175 @@
+import { UserMovieHistory } from "@/types/movie";
+import { mapWithConcurrency } from "@/lib/utils";
+import { getMovieDetails } from "./tmdb";
+import { getDecade } from "./scoring";
+
+// Per-user taste profile built from ratings
+// Every rated movie contributes a weight between -1 (1/10) and +1 (10/10),
+// which is spread over its genres, directors, top-billed cast and decade.
+// Affinities are shrunk towards zero so a single rating doesn't dominate.
+
+const NEUTRAL_RATING = 5.5;
+// "Not interested" counts as a mild dislike; it says less than a real rating
+const NOT_INTERESTED_RATING = 3;
+const MAX_PROFILE_MOVIES = 30;
+const PROFILE_FETCH_CONCURRENCY = 5;
+const TOP_BILLED_CAST = 5;
+
+// The movie features the scorer compares against the profile
+export interface TasteMovie {
+  id: number;
+  title: string;
+  genres: Array<{ id: number; name?: string }>;
+  directors: Array<{ id: number; name: string }>;
+  cast: Array<{ id: number; name: string }>;
+  releaseYear?: number;
+  runtime?: number;
+}
+
+interface RatedTasteMovie {
+  rating: number;
+  movie: TasteMovie;
+}
+
+export interface Affinity {
+  name: string;
+  score: number;
+  count: number;
+  // The highest-rated movie behind this affinity, used to explain scores
+  example?: { title: string; rating: number };
+}
+
+export interface TasteProfile {
+  ratedCount: number;
+  genres: Map<number, Affinity>;
+  directors: Map<number, Affinity>;
+  cast: Map<number, Affinity>;
+  decades: Map<number, Affinity>;
+  preferredRuntime?: number;
+}
+
+const ratingWeight = (rating: number) =>
+  Math.max(-1, Math.min(1, (rating - NEUTRAL_RATING) / (10 - NEUTRAL_RATING)));
+
+const addAffinity = (
+  map: Map<number, Affinity & { total: number }>,
+  key: number,
+  name: string,
+  weight: number,
+  movie: { title: string; rating: number }
+) => {
+  const entry = map.get(key) || { name, score: 0, count: 0, total: 0 };
+  entry.total += weight;
+  entry.count += 1;
+  if (!entry.example || movie.rating > entry.example.rating) {
+    entry.example = movie;
+  }
+  map.set(key, entry);
+};
+
+// Shrink each average towards zero: one 10/10 movie gives 0.5, not 1.0
+const finalizeAffinities = (
+  map: Map<number, Affinity & { total: number }>,
+  prior: number
+): Map<number, Affinity> =>
+  new Map(
+    Array.from(map.entries()).map(([key, { total, ...entry }]) => [
+      key,
+      { ...entry, score: total / (entry.count + prior) },
+    ])
+  );
+
+export const buildTasteProfile = (
+  ratedMovies: RatedTasteMovie[]
+): TasteProfile => {
+  const genres = new Map<number, Affinity & { total: number }>();
+  const directors = new Map<number, Affinity & { total: number }>();
+  const cast = new Map<number, Affinity & { total: number }>();
+  const decades = new Map<number, Affinity & { total: number }>();
+  let runtimeTotal = 0;
+  let runtimeWeight = 0;
+
+  for (const { rating, movie } of ratedMovies) {
+    const weight = ratingWeight(rating);
+    const example = { title: movie.title, rating };
+
+    movie.genres.forEach((genre) =>
+      addAffinity(genres, genre.id, genre.name || "", weight, example)
+    );
+    movie.directors.forEach((director) =>
+      addAffinity(directors, director.id, director.name, weight, example)
+    );
+    movie.cast
+      .slice(0, TOP_BILLED_CAST)
+      .forEach((actor) =>
+        addAffinity(cast, actor.id, actor.name, weight, example)
+      );
+
+    if (movie.releaseYear) {
+      const decade = getDecade(movie.releaseYear);
+      addAffinity(decades, decade, `${decade}s`, weight, example);
+    }
+
+    // Preferred runtime only learns from movies the user liked
+    if (movie.runtime && weight > 0) {
+      runtimeTotal += movie.runtime * weight;
+      runtimeWeight += weight;
+    }
+  }
+
+  return {
+    ratedCount: ratedMovies.length,
+    genres: finalizeAffinities(genres, 1),
+    directors: finalizeAffinities(directors, 0.5),
+    cast: finalizeAffinities(cast, 1),
+    decades: finalizeAffinities(decades, 2),
+    preferredRuntime:
+      runtimeWeight > 0 ? Math.round(runtimeTotal / runtimeWeight) : undefined,
+  };
+};
+
+// Build the taste profile for a user's history by fetching TMDB details
+// Only the most opinionated ratings are used, which keeps TMDB calls bounded
+export const loadTasteProfile = async (
+  history: UserMovieHistory
+): Promise<TasteProfile> => {
+  const ratedIds = new Set(history.ratedMovies.map((movie) => movie.id));
+  const ratings = [
+    ...history.ratedMovies.map((movie) => ({
+      id: movie.id,
+      rating: movie.rating,
+    })),
+    // Watch history ratings count too, unless the movie was also rated directly
+    ...history.watchedMovies
+      .filter((movie) => movie.rating && !ratedIds.has(movie.id))
+      .map((movie) => ({ id: movie.id, rating: movie.rating as number })),
+    // Dismissed recommendations are a negative signal
+    ...history.recommendationFeedback
+      .filter(
+        (movie) =>
+          movie.feedback === "not_interested" && !ratedIds.has(movie.id)
+      )
+      .map((movie) => ({ id: movie.id, rating: NOT_INTERESTED_RATING })),
+  ];
+
+  const selected = ratings
+    .sort(
+      (a, b) =>
+        Math.abs(b.rating - NEUTRAL_RATING) -
+        Math.abs(a.rating - NEUTRAL_RATING)
+    )
+    .slice(0, MAX_PROFILE_MOVIES);
+
+  const details = await mapWithConcurrency(
+    selected,
+    PROFILE_FETCH_CONCURRENCY,
+    async ({ id, rating }): Promise<RatedTasteMovie | null> => {
+      const movie = await getMovieDetails(id);
+      return movie ? { rating, movie } : null;
+    }
+  );
+
+  return buildTasteProfile(
+    details.filter((entry): entry is RatedTasteMovie => entry !== null)
+  );
+};
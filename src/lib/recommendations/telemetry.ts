@@ -0,0 +1,91 @@
+import type { LanguageModel } from "ai";
+import type { LLMCallOutcome, LLMCallPurpose } from "@/types/movie";
+import { recordLLMCall } from "@/lib/db-utils";
+import { getPromptVersion } from "./prompts";
+
+// Cost, token and latency telemetry for model calls
+// Every model call made for a user is recorded in llm_calls with its token
+// usage, estimated cost, latency and whether the answer was usable. Routes
+// pass a TelemetryContext down through the pipeline; calls made without one
+// (the eval harness) are not recorded. Recording never fails a call
+
+export interface TelemetryContext {
+  userEmail: string;
+  runId?: string | null;
+}
+
+// USD per million tokens; models not listed (local or fixture ones) are
+// recorded without a cost
+export const MODEL_PRICING: Record<string, { input: number; output: number }> =
+  {
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  };
+
+interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Providers that don't report usage give NaN
+const toTokens = (value?: number) =>
+  value !== undefined && Number.isFinite(value) ? value : null;
+
+const estimateCost = (modelId: string, usage?: TokenUsage) => {
+  const pricing = MODEL_PRICING[modelId];
+  const promptTokens = toTokens(usage?.promptTokens);
+  const completionTokens = toTokens(usage?.completionTokens);
+  if (!pricing || promptTokens === null || completionTokens === null) {
+    return null;
+  }
+  return (
+    (promptTokens * pricing.input + completionTokens * pricing.output) /
+    1_000_000
+  );
+};
+
+// "partial" when some items were rejected or fewer came back than asked for
+export const describeOutcome = (
+  valid: number,
+  expected: number,
+  rejected: number = 0
+): LLMCallOutcome =>
+  valid === 0 ? "failed" : valid < expected || rejected > 0 ? "partial" : "ok";
+
+interface LLMCallRecord {
+  model: LanguageModel;
+  purpose: LLMCallPurpose;
+  startedAt: number;
+  usage?: TokenUsage;
+  outcome: LLMCallOutcome;
+  error?: unknown;
+}
+
+export const trackLLMCall = async (
+  telemetry: TelemetryContext | undefined,
+  { model, purpose, startedAt, usage, outcome, error }: LLMCallRecord
+) => {
+  if (!telemetry) return;
+
+  await recordLLMCall(telemetry.userEmail, {
+    runId: telemetry.runId ?? null,
+    purpose,
+    provider: model.provider,
+    model: model.modelId,
+    promptVersion: getPromptVersion(),
+    promptTokens: toTokens(usage?.promptTokens),
+    completionTokens: toTokens(usage?.completionTokens),
+    costUsd: estimateCost(model.modelId, usage),
+    latencyMs: Date.now() - startedAt,
+    outcome,
+    error:
+      error === undefined
+        ? null
+        : error instanceof Error
+          ? error.message
+          : String(error),
+  });
+};
@@ -0,0 +1,170 @@
+import { getCachedMovieDetails } from "@/lib/movie-cache";
+import { tmdbRequest } from "@/lib/tmdb-client";
+import type { TasteMovie } from "./taste";
+
+// TMDB access for the recommendation pipeline
+// Every helper returns null (or an empty list) instead of throwing, so a
+// single failed lookup never fails a whole recommendation run. Retries and
+// timeouts are handled by the shared client in lib/tmdb-client. Movie details
+// are read through the movies table cache (lib/movie-cache)
+
+export interface TMDBMovie {
+  id: number;
+  title: string;
+  poster_path: string | null;
+  release_date: string;
+  vote_average: number;
+  vote_count: number;
+  revenue?: number;
+  popularity?: number;
+  overview?: string;
+}
+
+// A movie as it appears in TMDB list endpoints (search, similar, discover)
+export interface TMDBListMovie extends TMDBMovie {
+  genre_ids: number[];
+  original_title?: string;
+  original_language?: string;
+}
+
+// Full movie details with the credits the taste profile needs
+export interface TMDBMovieDetails extends TMDBMovie, TasteMovie {
+  backdrop_path?: string | null;
+  genres: Array<{ id: number; name: string }>;
+  original_language?: string;
+  // Subscription services streaming the movie; only loaded on request
+  streamingProviders?: string[];
+}
+
+const fetchTMDB = async <T>(
+  endpoint: string,
+  params: Record<string, string | number> = {}
+): Promise<T | null> => {
+  try {
+    return await tmdbRequest<T>(endpoint, { params });
+  } catch (error) {
+    console.warn(
+      `TMDB request ${endpoint} failed:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+};
+
+const fetchMovieList = async (
+  endpoint: string,
+  params: Record<string, string | number> = {}
+): Promise<TMDBListMovie[]> => {
+  const data = await fetchTMDB<{ results?: TMDBListMovie[] }>(endpoint, params);
+  return data?.results || [];
+};
+
+export const searchMovies = (title: string) =>
+  fetchMovieList("/search/movie", { query: title, page: 1 });
+
+// TMDB's own "people who liked this also liked" list for a movie
+export const getMovieRecommendations = (movieId: number) =>
+  fetchMovieList(`/movie/${movieId}/recommendations`, { page: 1 });
+
+// Movies sharing genres and keywords with a movie
+export const getSimilarMovies = (movieId: number) =>
+  fetchMovieList(`/movie/${movieId}/similar`, { page: 1 });
+
+export const discoverMovies = (params: Record<string, string | number>) =>
+  fetchMovieList("/discover/movie", { page: 1, ...params });
+
+type MovieDetailsResponse = {
+  id: number;
+  title: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  release_date: string;
+  vote_average: number;
+  vote_count: number;
+  revenue?: number;
+  popularity?: number;
+  overview?: string;
+  runtime?: number | null;
+  original_language?: string;
+  genres?: Array<{ id: number; name: string }>;
+  credits?: {
+    cast?: Array<{ id: number; name: string }>;
+    crew?: Array<{ id: number; name: string; job: string }>;
+  };
+  "watch/providers"?: {
+    results?: Record<
+      string,
+      { flatrate?: Array<{ provider_id: number; provider_name: string }> }
+    >;
+  };
+};
+
+// RECOMMENDATION_MOVIE_CACHE=off skips the cache, e.g. for the offline eval,
+// which must not read or write the movies table
+const isMovieCacheEnabled = () =>
+  process.env.RECOMMENDATION_MOVIE_CACHE !== "off";
+
+// The cache doesn't store streaming services, so lookups that need them go to
+// TMDB directly
+const loadMovieDetails = async (
+  movieId: number,
+  watchRegion?: string
+): Promise<MovieDetailsResponse | null> => {
+  if (watchRegion || !isMovieCacheEnabled()) {
+    return fetchTMDB<MovieDetailsResponse>(`/movie/${movieId}`, {
+      append_to_response: watchRegion ? "credits,watch/providers" : "credits",
+    });
+  }
+
+  try {
+    return await getCachedMovieDetails(movieId);
+  } catch (error) {
+    console.warn(
+      `Loading details for movie ${movieId} failed:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+};
+
+// watchRegion also loads the subscription streaming services for that region
+export const getMovieDetails = async (
+  movieId: number,
+  { watchRegion }: { watchRegion?: string } = {}
+): Promise<TMDBMovieDetails | null> => {
+  const movie = await loadMovieDetails(movieId, watchRegion);
+
+  if (!movie) return null;
+
+  const credits = movie.credits || {};
+
+  return {
+    id: movie.id,
+    title: movie.title,
+    poster_path: movie.poster_path,
+    backdrop_path: movie.backdrop_path,
+    release_date: movie.release_date,
+    vote_average: movie.vote_average,
+    vote_count: movie.vote_count,
+    revenue: movie.revenue,
+    popularity: movie.popularity,
+    overview: movie.overview,
+    runtime: movie.runtime || undefined,
+    original_language: movie.original_language,
+    genres: movie.genres || [],
+    releaseYear: movie.release_date
+      ? parseInt(movie.release_date.slice(0, 4), 10)
+      : undefined,
+    directors: (credits.crew || [])
+      .filter((member) => member.job === "Director")
+      .map((member) => ({ id: member.id, name: member.name })),
+    cast: (credits.cast || [])
+      .slice(0, 5)
+      .map((member) => ({ id: member.id, name: member.name })),
+    streamingProviders: watchRegion
+      ? (
+          movie["watch/providers"]?.results?.[watchRegion]?.flatrate || []
+        ).map((provider) => provider.provider_name)
+      : undefined,
+  };
+};
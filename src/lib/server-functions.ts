@@ -1,19 +1,26 @@
 import { auth } from "@/auth";
 import type { UserInitialData } from "@/types/movie";
 import { TMDBResponse, TMDBMovie, TMDBGenresResponse } from "@/lib/tmdb";
+import {
+  getMovieGenres,
+  getMoviesByGenre,
+  getPopularMovies,
+} from "@/lib/tmdb-client";
+import {
+  getCachedMovieDetails,
+  getCachedMovieDetailsBatch,
+} from "@/lib/movie-cache";
 
 // All server-side operations for SSR/ISR
 // This file consolidates all server-side functions used in Server Components
 //
 // TWO MAIN CATEGORIES:
 // 1. USER AUTHENTICATION & DATABASE OPERATIONS (uses NextAuth auth())
-// 2. EXTERNAL API CALLS (TMDB API calls)
+// 2. EXTERNAL API CALLS (TMDB, through lib/tmdb-client)
 //
 // USAGE: Server Components, API Routes, Server Actions
 // NEVER IMPORT IN CLIENT COMPONENTS
 
-const TMDB_BASE_URL = "https://api.themoviedb.org/3";
-
 // USER AUTHENTICATION & DATABASE OPERATIONS
 
 // Get user's rated movies and want-to-watch list from database
@@ -51,36 +58,7 @@ export const getUserRatedMovies = async (): Promise<UserInitialData> => {
 // Used in Server Components for SSR/ISR
 export const getInitialMovies = async (): Promise<TMDBResponse> => {
   try {
-    const apiKey = process.env.TMDB_API_KEY;
-
-    if (!apiKey) {
-      throw new Error("TMDB API key not configured");
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, 5000);
-
-    const url = `${TMDB_BASE_URL}/movie/popular?api_key=${apiKey}&language=en-US&page=1`;
-
-    const response = await fetch(url, {
-      headers: {
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const movies = await response.json();
-    return movies;
+    return await getPopularMovies(1, { timeoutMs: 5000 });
   } catch (error) {
     console.error("getInitialMovies: Error occurred:", error);
     return { results: [], page: 1, total_pages: 0, total_results: 0 };
@@ -88,34 +66,13 @@ export const getInitialMovies = async (): Promise<TMDBResponse> => {
 };
 
 // Server-side function for fetching movie details with comprehensive data
+// Served from the movies table cache, see lib/movie-cache
 // Used in Server Components for SSR/ISR
 export const getMovieData = async (
   movieId: number
 ): Promise<TMDBMovie | null> => {
   try {
-    const apiKey = process.env.TMDB_API_KEY;
-
-    if (!apiKey) {
-      throw new Error("TMDB API key not configured");
-    }
-
-    const response = await fetch(
-      `${TMDB_BASE_URL}/movie/${movieId}?api_key=${apiKey}&language=en-US&append_to_response=credits,videos,images,release_dates`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const movie = await response.json();
-    return movie;
+    return await getCachedMovieDetails(movieId);
   } catch (error) {
     console.error(`Failed to fetch movie ${movieId}:`, error);
     return null;
@@ -123,82 +80,23 @@ export const getMovieData = async (
 };
 
 // Server-side function for fetching movie details for user's rated movies
+// Served from the movies table cache in one query; a movie that fails to
+// load is left out
 // Used in Server Components for SSR
-export const getUserMovieDetails = async (movieIds: number[]) => {
+export const getUserMovieDetails = async (
+  movieIds: number[]
+): Promise<Record<number, TMDBMovie>> => {
   if (movieIds.length === 0) return {};
 
-  try {
-    const apiKey = process.env.TMDB_API_KEY;
-    if (!apiKey) {
-      throw new Error("TMDB API key not configured");
-    }
-
-    const movieDetailsPromises = movieIds.map(async (movieId) => {
-      const response = await fetch(
-        `${TMDB_BASE_URL}/movie/${movieId}?api_key=${apiKey}&language=en-US`,
-        {
-          headers: {
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (response.ok) {
-        return await response.json();
-      }
-      return null;
-    });
-
-    const movieDetails = await Promise.all(movieDetailsPromises);
-
-    const movieDetailsMap: Record<number, TMDBMovie> = {};
-    movieDetails.forEach((movie) => {
-      if (movie) {
-        movieDetailsMap[movie.id] = movie;
-      }
-    });
-
-    return movieDetailsMap;
-  } catch (error) {
-    console.error("Failed to fetch user movie details:", error);
-    return {};
-  }
+  const { movies } = await getCachedMovieDetailsBatch(movieIds);
+  return movies;
 };
 
 // Server-side function for fetching movie genres
 // Used in Server Components for SSR/ISR
 export const getInitialGenres = async (): Promise<TMDBGenresResponse> => {
   try {
-    const apiKey = process.env.TMDB_API_KEY;
-
-    if (!apiKey) {
-      throw new Error("TMDB API key not configured");
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, 5000);
-
-    const url = `${TMDB_BASE_URL}/genre/movie/list?api_key=${apiKey}&language=en-US`;
-
-    const response = await fetch(url, {
-      headers: {
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const genres = await response.json();
-    return genres;
+    return await getMovieGenres({ timeoutMs: 5000 });
   } catch (error) {
     console.error("getInitialGenres: Error occurred:", error);
     return { genres: [] };
@@ -212,29 +110,7 @@ export const getMoviesByGenreData = async (
   page: number = 1
 ): Promise<TMDBResponse> => {
   try {
-    const apiKey = process.env.TMDB_API_KEY;
-
-    if (!apiKey) {
-      throw new Error("TMDB API key not configured");
-    }
-
-    const response = await fetch(
-      `${TMDB_BASE_URL}/discover/movie?api_key=${apiKey}&language=en-US&with_genres=${genreId}&page=${page}&sort_by=popularity.desc`,
-      {
-        headers: {
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    const movies = await response.json();
-    return movies;
+    return await getMoviesByGenre(genreId, page);
   } catch (error) {
     console.error(`Failed to fetch movies for genre ${genreId}:`, error);
     return { results: [], page: 1, total_pages: 0, total_results: 0 };
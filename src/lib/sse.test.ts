@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  encodeSSEEvent,
+  readSSEStream,
+  SSE_KEEP_ALIVE,
+  type SSEEvent,
+} from "./sse";
+
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const readAll = async (body: ReadableStream<Uint8Array>) => {
+  const events: SSEEvent[] = [];
+  for await (const event of readSSEStream(body)) events.push(event);
+  return events;
+};
+
+describe("readSSEStream", () => {
+  it("reads back what encodeSSEEvent wrote", async () => {
+    const events: SSEEvent[] = [
+      { event: "stage", data: '{"stage":"candidates"}', id: "0" },
+      { event: "recommendation", data: "first line\nsecond line", id: "1" },
+    ];
+
+    expect(await readAll(streamOf(...events.map(encodeSSEEvent)))).toEqual(
+      events
+    );
+  });
+
+  it("joins events split across chunks", async () => {
+    const encoded = encodeSSEEvent({ event: "done", data: "{}", id: "7" });
+
+    expect(
+      await readAll(
+        streamOf(encoded.slice(0, 5), encoded.slice(5, 20), encoded.slice(20))
+      )
+    ).toEqual([{ event: "done", data: "{}", id: "7" }]);
+  });
+
+  it("skips keep-alives and events without data", async () => {
+    expect(
+      await readAll(
+        streamOf(SSE_KEEP_ALIVE, "event: empty\n\n", "data: hello\n\n")
+      )
+    ).toEqual([{ event: "message", data: "hello" }]);
+  });
+
+  it("accepts CRLF line endings and fields without a space", async () => {
+    expect(await readAll(streamOf("event:error\r\ndata:{}\r\n\r\n"))).toEqual([
+      { event: "error", data: "{}" },
+    ]);
+  });
+
+  it("drops an unterminated event when the stream ends", async () => {
+    expect(
+      await readAll(streamOf("data: complete\n\n", "data: partial"))
+    ).toEqual([{ event: "message", data: "complete" }]);
+  });
+});
@@ -0,0 +1,141 @@
+// Server-Sent Events helpers
+// encodeSSEEvent and createSSEResponse produce events on the server; readSSEStream parses them on the client
+// We POST with fetch rather than using EventSource, so parsing is done by hand
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export const encodeSSEEvent = ({ event, data, id }: SSEEvent): string => {
+  const lines = [`event: ${event}`];
+  if (id !== undefined) lines.push(`id: ${id}`);
+  data.split("\n").forEach((line) => lines.push(`data: ${line}`));
+  return `${lines.join("\n")}\n\n`;
+};
+
+// Comment line that keeps idle connections open through proxies
+export const SSE_KEEP_ALIVE = ": keep-alive\n\n";
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+} as const;
+
+export interface SSESender {
+  send: (event: string, data: unknown) => void;
+  // Aborted when the client disconnects
+  signal: AbortSignal;
+}
+
+// Stream the events produced by `produce` as an SSE response
+// Handles event ids, keep-alives, client disconnects and closing the stream;
+// `produce` sends its own error events
+export const createSSEResponse = (
+  req: Request,
+  produce: (sender: SSESender) => Promise<void>,
+  keepAliveInterval = 10000
+): Response => {
+  const abortController = new AbortController();
+  req.signal.addEventListener("abort", () => abortController.abort());
+
+  const encoder = new TextEncoder();
+  let sequence = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (abortController.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between the abort check and the write
+          abortController.abort();
+        }
+      };
+
+      const send = (event: string, data: unknown) =>
+        write(
+          encodeSSEEvent({
+            event,
+            data: JSON.stringify(data),
+            id: String(sequence++),
+          })
+        );
+
+      const keepAlive = setInterval(
+        () => write(SSE_KEEP_ALIVE),
+        keepAliveInterval
+      );
+
+      try {
+        await produce({ send, signal: abortController.signal });
+      } catch (error) {
+        console.error("Unhandled SSE stream error:", error);
+      } finally {
+        clearInterval(keepAlive);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+};
+
+const parseSSEBlock = (block: string): SSEEvent | null => {
+  const event: SSEEvent = { event: "message", data: "" };
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") event.event = value;
+    else if (field === "id") event.id = value;
+    else if (field === "data") data.push(value);
+  }
+
+  if (data.length === 0) return null;
+  event.data = data.join("\n");
+  return event;
+};
+
+export async function* readSSEStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const parsed = parseSSEBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
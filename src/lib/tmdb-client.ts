@@ -0,0 +1,276 @@
+import { API_CONFIG } from "./constants";
+import type {
+  TMDBGenresResponse,
+  TMDBMovie,
+  TMDBMovieChangesResponse,
+  TMDBResponse,
+} from "./tmdb";
+
+// Server-side TMDB client: the one place that talks to the TMDB API
+// Authenticates with TMDB_READ_ACCESS_TOKEN (bearer token) or TMDB_API_KEY,
+// gives every attempt its own timeout and retries rate limits (429), server
+// errors and network failures with exponential backoff, honoring Retry-After.
+// Failures throw TMDBError
+//
+// USAGE: API routes, Server Components, the recommendation pipeline
+// NEVER IMPORT IN CLIENT COMPONENTS
+
+export type TMDBErrorCode =
+  | "NOT_CONFIGURED"
+  | "HTTP"
+  | "TIMEOUT"
+  | "NETWORK"
+  | "ABORTED";
+
+export class TMDBError extends Error {
+  readonly code: TMDBErrorCode;
+  readonly endpoint: string;
+  // TMDB's HTTP status, for HTTP errors
+  readonly status?: number;
+
+  constructor(
+    message: string,
+    code: TMDBErrorCode,
+    endpoint: string,
+    options: { status?: number; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "TMDBError";
+    this.code = code;
+    this.endpoint = endpoint;
+    this.status = options.status;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// A longer Retry-After fails the request instead of holding it open
+const MAX_RETRY_AFTER_MS = 10000;
+
+export interface TMDBRequestOptions {
+  params?: Record<string, string | number | undefined>;
+  // Cancels the request, including any wait between retries
+  signal?: AbortSignal;
+  // Per attempt
+  timeoutMs?: number;
+  // Next.js data cache settings, passed through to fetch
+  next?: RequestInit["next"];
+}
+
+type EndpointOptions = Omit<TMDBRequestOptions, "params">;
+
+interface TMDBCredentials {
+  headers: Record<string, string>;
+  params: Record<string, string>;
+}
+
+const getCredentials = (): TMDBCredentials | null => {
+  const token = process.env.TMDB_READ_ACCESS_TOKEN;
+  if (token) {
+    return { headers: { Authorization: `Bearer ${token}` }, params: {} };
+  }
+  const apiKey = process.env.TMDB_API_KEY;
+  if (apiKey) return { headers: {}, params: { api_key: apiKey } };
+  return null;
+};
+
+export const isTMDBConfigured = () => getCredentials() !== null;
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+// Exponential with jitter, so parallel requests don't retry in lockstep
+const backoffDelay = (attempt: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS) *
+  (0.5 + Math.random() / 2);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+type AttemptResult<T> =
+  | { data: T }
+  | { error: TMDBError; retryable: boolean; retryAfterMs?: number | null };
+
+const attemptRequest = async <T>(
+  url: string,
+  endpoint: string,
+  headers: Record<string, string>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, next }: TMDBRequestOptions
+): Promise<AttemptResult<T>> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "application/json", ...headers },
+      signal: controller.signal,
+      next,
+    });
+
+    if (response.ok) return { data: (await response.json()) as T };
+
+    return {
+      error: new TMDBError(
+        `TMDB API error: ${response.status} ${response.statusText}`,
+        "HTTP",
+        endpoint,
+        { status: response.status }
+      ),
+      retryable: isRetryableStatus(response.status),
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      return {
+        error: new TMDBError("TMDB request aborted", "ABORTED", endpoint, {
+          cause: error,
+        }),
+        retryable: false,
+      };
+    }
+    return {
+      error: controller.signal.aborted
+        ? new TMDBError(
+            `TMDB request timed out after ${timeoutMs}ms`,
+            "TIMEOUT",
+            endpoint,
+            { cause: error }
+          )
+        : new TMDBError("TMDB request failed", "NETWORK", endpoint, {
+            cause: error,
+          }),
+      retryable: true,
+    };
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+export const tmdbRequest = async <T>(
+  endpoint: string,
+  options: TMDBRequestOptions = {}
+): Promise<T> => {
+  const credentials = getCredentials();
+  if (!credentials) {
+    throw new TMDBError(
+      "TMDB API key not configured",
+      "NOT_CONFIGURED",
+      endpoint
+    );
+  }
+
+  const query = new URLSearchParams({
+    language: API_CONFIG.DEFAULT_LANGUAGE,
+    ...credentials.params,
+  });
+  for (const [key, value] of Object.entries(options.params || {})) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  const url = `${API_CONFIG.TMDB_BASE_URL}${endpoint}?${query}`;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await attemptRequest<T>(
+      url,
+      endpoint,
+      credentials.headers,
+      options
+    );
+    if ("data" in result) return result.data;
+
+    const delay = result.retryAfterMs ?? backoffDelay(attempt);
+    if (
+      !result.retryable ||
+      attempt >= MAX_ATTEMPTS ||
+      delay > MAX_RETRY_AFTER_MS
+    ) {
+      throw result.error;
+    }
+
+    console.warn(
+      `${result.error.message} (${endpoint}), retrying in ${Math.round(delay)}ms`
+    );
+    try {
+      await wait(delay, options.signal);
+    } catch (error) {
+      throw new TMDBError("TMDB request aborted", "ABORTED", endpoint, {
+        cause: error,
+      });
+    }
+  }
+};
+
+// Typed endpoints used by the API routes and Server Components
+
+export const getPopularMovies = (page = 1, options?: EndpointOptions) =>
+  tmdbRequest<TMDBResponse>("/movie/popular", { ...options, params: { page } });
+
+export const searchMovies = (
+  query: string,
+  page = 1,
+  options?: EndpointOptions
+) =>
+  tmdbRequest<TMDBResponse>("/search/movie", {
+    ...options,
+    params: { query, page },
+  });
+
+// appendToResponse loads extras such as "credits,videos" in the same request
+export const getMovieDetails = (
+  movieId: number,
+  {
+    appendToResponse,
+    ...options
+  }: EndpointOptions & { appendToResponse?: string } = {}
+) =>
+  tmdbRequest<TMDBMovie>(`/movie/${movieId}`, {
+    ...options,
+    params: { append_to_response: appendToResponse },
+  });
+
+export const getMovieGenres = (options?: EndpointOptions) =>
+  tmdbRequest<TMDBGenresResponse>("/genre/movie/list", options);
+
+export const getMoviesByGenre = (
+  genreId: number,
+  page = 1,
+  options?: EndpointOptions
+) =>
+  tmdbRequest<TMDBResponse>("/discover/movie", {
+    ...options,
+    params: { with_genres: genreId, page, sort_by: "popularity.desc" },
+  });
+
+// Dates are YYYY-MM-DD; TMDB accepts ranges of up to 14 days
+export const getMovieChanges = (
+  startDate: string,
+  endDate: string,
+  page = 1,
+  options?: EndpointOptions
+) =>
+  tmdbRequest<TMDBMovieChangesResponse>("/movie/changes", {
+    ...options,
+    params: { start_date: startDate, end_date: endDate, page },
+  });
@@ -1,5 +1,7 @@
 // External movie data service
-// This file provides TypeScript interfaces and utility functions for The Movie Database API
+// This file provides TypeScript interfaces for The Movie Database API, shared
+// by server and client code. Requests go through the server-side client in
+// tmdb-client.ts
 //
 // SCALING CONSIDERATIONS:
 // - TRADEOFFS: External dependency, rate limits (1000 requests/day), no control over data
@@ -10,8 +12,6 @@
 // CURRENT USAGE: Movie data, search, images, configuration
 // API LIMITS: 1000 requests/day (free tier), consider upgrading for production
 
-const TMDB_BASE_URL = "https://api.themoviedb.org/3";
-
 export interface TMDBMovie {
   id: number;
   title: string;
@@ -114,71 +114,10 @@ export interface TMDBGenresResponse {
   genres: TMDBGenre[];
 }
 
-const getApiKey = (): string => {
-  const apiKey = process.env.TMDB_API_KEY || "";
-  if (!apiKey) {
-    console.warn(
-      "TMDB API key not found. Please set TMDB_API_KEY in your environment variables."
-    );
-  }
-  return apiKey;
-};
-
-const makeTMDBRequest = async <T>(endpoint: string): Promise<T> => {
-  const apiKey = getApiKey();
-
-  if (!apiKey) {
-    throw new Error("TMDB API key not configured");
-  }
-
-  const url = `${TMDB_BASE_URL}${endpoint}?api_key=${apiKey}&language=en-US`;
-
-  try {
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `TMDB API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("TMDB API request failed:", error);
-    throw error;
-  }
-};
-
-export const getPopularMovies = async (
-  page: number = 1
-): Promise<TMDBResponse> => {
-  return makeTMDBRequest<TMDBResponse>(`/movie/popular?page=${page}`);
-};
-
-export const searchMovies = async (
-  query: string,
-  page: number = 1
-): Promise<TMDBResponse> => {
-  return makeTMDBRequest<TMDBResponse>(
-    `/search/movie?query=${encodeURIComponent(query)}&page=${page}`
-  );
-};
-
-export const getMovieDetails = async (movieId: number): Promise<TMDBMovie> => {
-  return makeTMDBRequest<TMDBMovie>(
-    `/movie/${movieId}?append_to_response=credits,videos,images,release_dates`
-  );
-};
-
-export const getMovieGenres = async (): Promise<TMDBGenresResponse> => {
-  return makeTMDBRequest<TMDBGenresResponse>("/genre/movie/list");
-};
-
-export const getMoviesByGenre = async (
-  genreId: number,
-  page: number = 1
-): Promise<TMDBResponse> => {
-  return makeTMDBRequest<TMDBResponse>(
-    `/discover/movie?with_genres=${genreId}&page=${page}&sort_by=popularity.desc`
-  );
-};
+// Ids of movies whose TMDB data changed in a date range (/movie/changes)
+export interface TMDBMovieChangesResponse {
+  page: number;
+  results: Array<{ id: number; adult?: boolean | null }>;
+  total_pages: number;
+  total_results: number;
+}
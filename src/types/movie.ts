@@ -17,6 +17,65 @@ export interface WantToWatchMovie {
   addedAt: string;
 }
 
+export interface WatchedMovie {
+  id: number;
+  title: string;
+  rating?: number;
+  watchedAt: string;
+}
+
+// What the user did with a recommendation card
+export type RecommendationFeedback =
+  | "not_interested"
+  | "seen"
+  | "added_to_watchlist";
+
+export interface PastRecommendation {
+  id: number;
+  title: string;
+  recommendedAt: string;
+  feedback?: RecommendationFeedback;
+}
+
+// A user's full movie history as stored in the database
+// Used server-side to build the recommendation taste profile and exclusions
+export interface UserMovieHistory {
+  userId: string;
+  ratedMovies: RatedMovie[];
+  wantToWatchList: WantToWatchMovie[];
+  watchedMovies: WatchedMovie[];
+  // Most recent first, capped at PAST_RECOMMENDATION_LIMIT
+  pastRecommendations: PastRecommendation[];
+  // Every recommendation the user gave feedback on, never capped
+  recommendationFeedback: Array<
+    PastRecommendation & { feedback: RecommendationFeedback }
+  >;
+  // TMDB genre ids picked during onboarding
+  favoriteGenres: number[];
+}
+
+export type MatchLevel = "LOVE IT" | "LIKE IT" | "MAYBE" | "RISKY";
+
+// "safe_bet": a strong match the user has likely heard of; "wildcard": a
+// hidden gem or a less certain match, mixed in for variety
+export type PickType = "safe_bet" | "wildcard";
+
+// One line of a recommendation's "Why this score?" explanation
+// Points are relative to the neutral baseline score of 50
+export interface ScoreFactor {
+  factor:
+    | "genre"
+    | "director"
+    | "cast"
+    | "era"
+    | "runtime"
+    | "similar"
+    | "quality"
+    | "popularity";
+  label: string;
+  points: number;
+}
+
 export interface MovieRecommendation {
   id: number;
   title: string;
@@ -28,12 +87,228 @@ export interface MovieRecommendation {
   reason: string;
   personalizedReason?: string;
   matchScore?: number;
-  matchLevel?: "LOVE IT" | "LIKE IT" | "MAYBE" | "RISKY";
-  enhancedReason?: string;
+  matchLevel?: MatchLevel;
+  scoreBreakdown?: ScoreFactor[];
+  resolutionConfidence?: number;
+  pickType?: PickType;
+  feedback?: RecommendationFeedback;
   revenue?: number;
   popularity?: number;
 }
 
+export type RecommendationMood =
+  | "feel_good"
+  | "funny"
+  | "thrilling"
+  | "dark"
+  | "thought_provoking"
+  | "romantic"
+  | "scary"
+  | "epic";
+
+export type RecommendationAudience = "solo" | "partner" | "friends" | "kids";
+
+// Optional steering for a single recommendation request
+// Every field narrows the picks; leaving it out means "no preference"
+export interface RecommendationConstraints {
+  mood?: RecommendationMood;
+  // TMDB genre ids: at least one of genres, none of excludeGenres
+  genres?: number[];
+  excludeGenres?: number[];
+  // Minutes
+  maxRuntime?: number;
+  // First years of the earliest and latest decade, e.g. 1980 and 1990 for 1980-1999
+  decadeFrom?: number;
+  decadeTo?: number;
+  // ISO 639-1 code of the original language, e.g. "fr"
+  language?: string;
+  audience?: RecommendationAudience;
+  // Only movies included with a streaming subscription
+  streamingOnly?: boolean;
+  // Not a filter: 0-100, how many lesser-known hidden gems to mix in
+  adventurousness?: number;
+}
+
+export type RecommendationRunStatus =
+  | "running"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+// What started a run: the user, or the weekly picks scheduler
+export type RecommendationRunTrigger = "user" | "weekly_digest";
+
+// What a recommendation run was asked for and what it knew about the user
+export interface RecommendationRunInputs {
+  count: number;
+  excludeMovieIds?: number[];
+  constraints?: RecommendationConstraints;
+  ratedCount: number;
+  wantToWatchCount: number;
+  watchedCount: number;
+}
+
+// One generation batch, as shown in the recommendation history
+// Results are a snapshot: later runs or feedback never change them
+export interface RecommendationRun {
+  id: string;
+  status: RecommendationRunStatus;
+  trigger: RecommendationRunTrigger;
+  inputs: RecommendationRunInputs;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  latencyMs: number | null;
+  results: MovieRecommendation[];
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  // When the user opened a weekly digest; null until then
+  seenAt: string | null;
+}
+
+// Pipeline progress, in order; background jobs record the stage they're at
+export type RecommendationStage =
+  | "queued"
+  | "profile"
+  | "candidates"
+  | "ranking"
+  | "explaining"
+  | "backfill"
+  | "saving"
+  | "done";
+
+export type RecommendationJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed";
+
+// What a queued generation was asked for
+export interface RecommendationJobRequest {
+  count?: number;
+  excludeMovieIds?: number[];
+  constraints?: RecommendationConstraints;
+  trigger?: RecommendationRunTrigger;
+}
+
+// A queued generation (POST /api/recommend) and its progress
+export interface RecommendationJob {
+  id: string;
+  status: RecommendationJobStatus;
+  stage: RecommendationStage;
+  request: RecommendationJobRequest;
+  runId: string | null;
+  results: MovieRecommendation[];
+  error: string | null;
+  attempts: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// How far a queued generation has got, for loading screens
+export interface RecommendationProgress {
+  stage: RecommendationStage;
+  message: string;
+}
+
+// Account tiers; each has its own recommendation quota
+export type UserTier = "free" | "pro";
+
+// What counts against the recommendation quota
+export type RecommendationUsageKind = "generation" | "refinement";
+
+// A user's recommendation quota over the last 24 hours
+export interface RecommendationQuota {
+  tier: UserTier;
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the next generation is allowed; null when it is allowed now
+  availableAt: string | null;
+}
+
+// How far a user is through onboarding; recommendations unlock once
+// isProfileReady is set
+export interface OnboardingStatus {
+  favoriteGenres: number[];
+  ratedCount: number;
+  minRatings: number;
+  isProfileReady: boolean;
+}
+
+// A widely known film on the onboarding rate-a-grid
+export interface OnboardingMovie {
+  id: number;
+  title: string;
+  poster_path: string | null;
+  release_date: string;
+  overview?: string;
+  vote_average: number;
+  vote_count: number;
+  genre_ids: number[];
+}
+
+// What a model call was for, and how usable its answer was: "partial" means
+// some items were rejected or the batch came back short
+export type LLMCallPurpose = "recommendation" | "explanation" | "refinement";
+export type LLMCallOutcome = "ok" | "partial" | "failed";
+
+// Model call totals for one day or one user, as reported to admins
+export interface LLMUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Only calls to models with known pricing add to the cost
+  costUsd: number;
+  avgLatencyMs: number;
+  partial: number;
+  failed: number;
+}
+
+export interface LLMUsageSummary {
+  since: string;
+  byDay: Array<LLMUsageTotals & { day: string }>;
+  byUser: Array<
+    LLMUsageTotals & { userId: string | null; email: string | null }
+  >;
+}
+
+// One catalog sync of the cached movies table (lib/catalog-sync)
+export type CatalogSyncStatus = "running" | "completed" | "failed";
+
+export interface CatalogSyncReport {
+  runId: string;
+  status: CatalogSyncStatus;
+  // Cached movies listed in TMDB's changes feed
+  changed: number;
+  updated: number;
+  failed: number;
+  // Movies TMDB no longer has that nothing referenced
+  removed: number;
+  // False when the time budget ran out before every changed movie was
+  // refreshed; the next run reads the same part of the feed again
+  changesCaughtUp: boolean;
+  error?: string;
+}
+
+// How a refinement turn changes the cards: swap them out or add to them
+export type RefinementMode = "replace" | "add";
+
+// One turn of the "refine these picks" chat on a recommendation run
+// Assistant turns carry the constraints they applied and the picks they produced
+export interface RecommendationChatMessage {
+  id: string;
+  runId: string;
+  role: "user" | "assistant";
+  content: string;
+  mode: RefinementMode | null;
+  constraints: RecommendationConstraints | null;
+  recommendations: MovieRecommendation[];
+  createdAt: string;
+}
+
 // Type definitions for database entities
 // These match the Drizzle schema types for type safety
 